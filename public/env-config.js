@@ -6,6 +6,8 @@ window._env_ = {
   BUILD_VERSION: 'dev-' + new Date().toISOString().replace(/[:.]/g, '-'),
   BUILD_DATE: new Date().toISOString(),
   PACKAGE_VERSION: '0.0.0',
+  // Hex SHA-256 of each trusted remote command signing key (SPKI); remote commands are refused without one
+  COMMAND_SIGNING_KEY_FINGERPRINTS: [],
 };
 
 // Make version available globally for cache busting
@@ -30,7 +32,9 @@ window.APP_VERSION = window._env_.BUILD_VERSION;
     }
 
     // Clear localStorage but preserve essential data
-    const preserveKeys = ['user_preferences', 'auth_token', 'language_setting', 'lang'];
+    // device_mac_address: the MAC a tablet registered with; losing it would make it a new device on the server
+    // kiosk_enabled: a deployment must not take a tablet out of kiosk mode
+    const preserveKeys = ['user_preferences', 'auth_token', 'language_setting', 'lang', 'device_mac_address', 'kiosk_enabled'];
     const itemsToPreserve = {};
 
     preserveKeys.forEach(key => {
@@ -2,31 +2,64 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import CacheManager from './components/CacheManager'
 import { SignatureRequestHandler } from './components/SignatureRequestHandler'
+import { RemoteCommandHandler } from './components/RemoteCommandHandler'
+import { KioskRoute } from './components/KioskRoute'
 import { DeviceManagerProvider } from './contexts/deviceManagerContext'
+import { DeviceAuthProvider } from './contexts/deviceAuthContext'
+import { useDeviceAuthContext } from './contexts/useDeviceAuthContext'
+import { KioskProvider } from './contexts/kioskContext'
+import { useKioskContext } from './contexts/useKioskContext'
 import { DeviceInfoTest } from './components/DeviceInfoTest'
 import './App.css'
 import { PatronForm } from './pages/PatronForm'
 import DeviceManagerPage from './pages/DeviceManagerPage'
 import SignatureConfirmation from './pages/SignatureConfirmation'
+import DeviceProvisioning from './pages/DeviceProvisioning'
+
+// Nothing talks to the backend until the tablet holds a device token
+function AuthenticatedApp() {
+  const { status } = useDeviceAuthContext()
+  const { isAdminUnlocked } = useKioskContext()
+
+  if (status === 'loading') {
+    return null
+  }
+
+  if (status === 'unprovisioned') {
+    return <DeviceProvisioning />
+  }
 
-function App() {
   return (
     <DeviceManagerProvider>
+      <Routes>
+        <Route path="/" element={<SignatureConfirmation />} />
+        <Route path="/device-manager" element={<KioskRoute><DeviceManagerPage /></KioskRoute>} />
+        <Route path="/device-test" element={<KioskRoute><DeviceInfoTest /></KioskRoute>} />
+        <Route path="/signature-confirmation" element={<KioskRoute><PatronForm /></KioskRoute>} />
+      </Routes>
+      
+      {/* Global signature request handler */}
+      <SignatureRequestHandler />
+
+      {/* Remote commands from support staff, including the maintenance screen */}
+      <RemoteCommandHandler />
+      
+      {/* Cache Manager - only show for developers with explicit admin flag, never to a locked kiosk */}
+      <CacheManager showButton={isAdminUnlocked && window.location.search.includes('admin=true')} />
+    </DeviceManagerProvider>
+  )
+}
+
+function App() {
+  return (
+    <DeviceAuthProvider>
       <Router>
-        <Routes>
-          <Route path="/" element={<SignatureConfirmation />} />
-          <Route path="/device-manager" element={<DeviceManagerPage />} />
-          <Route path="/device-test" element={<DeviceInfoTest />} />
-          <Route path="/signature-confirmation" element={<PatronForm />} />
-        </Routes>
-        
-        {/* Global signature request handler */}
-        <SignatureRequestHandler />
-        
-        {/* Cache Manager - only show for developers with explicit admin flag */}
-        <CacheManager showButton={window.location.search.includes('admin=true')} />
+        {/* Kiosk lockdown covers provisioning too, so it sits above the auth gate */}
+        <KioskProvider>
+          <AuthenticatedApp />
+        </KioskProvider>
       </Router>
-    </DeviceManagerProvider>
+    </DeviceAuthProvider>
   )
 }
 
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Chip, Stack, Typography } from '@mui/material';
+import {
+    BatteryChargingFull,
+    BatteryFull,
+    BatteryAlert,
+    NetworkCheck,
+    Storage,
+    Sync
+} from '@mui/icons-material';
+import type { DeviceHealthSnapshot } from '../type';
+
+const LOW_BATTERY_LEVEL = 0.2;
+const HIGH_STORAGE_USAGE = 0.8;
+
+const formatBytes = (bytes: number): string => {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    return `${Math.round(bytes / 1024 ** 2)} MB`;
+};
+
+const formatUptime = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+interface DeviceHealthSummaryProps {
+    health: DeviceHealthSnapshot;
+    dense?: boolean;
+}
+
+/**
+ * Compact view of a tablet's heartbeat health snapshot
+ */
+export const DeviceHealthSummary: React.FC<DeviceHealthSummaryProps> = ({ health, dense = false }) => {
+    const storageRatio = health.storageUsedBytes !== undefined && health.storageQuotaBytes
+        ? health.storageUsedBytes / health.storageQuotaBytes
+        : undefined;
+
+    return (
+        <Stack spacing={1}>
+            <Stack direction="row" spacing={1} flexWrap="wrap" sx={{ gap: 1 }}>
+                {health.batteryLevel !== undefined && (
+                    <Chip
+                        size="small"
+                        icon={health.isCharging
+                            ? <BatteryChargingFull />
+                            : health.batteryLevel < LOW_BATTERY_LEVEL ? <BatteryAlert /> : <BatteryFull />}
+                        label={`${Math.round(health.batteryLevel * 100)}%${health.isCharging ? ' charging' : ''}`}
+                        color={!health.isCharging && health.batteryLevel < LOW_BATTERY_LEVEL ? 'error' : 'default'}
+                        variant="outlined"
+                    />
+                )}
+                <Chip
+                    size="small"
+                    icon={<NetworkCheck />}
+                    label={health.isOnline ? health.connectionType ?? 'Online' : 'Offline'}
+                    color={health.isOnline ? 'default' : 'error'}
+                    variant="outlined"
+                />
+                {storageRatio !== undefined && (
+                    <Chip
+                        size="small"
+                        icon={<Storage />}
+                        label={`${formatBytes(health.storageUsedBytes ?? 0)} / ${formatBytes(health.storageQuotaBytes ?? 0)}`}
+                        color={storageRatio > HIGH_STORAGE_USAGE ? 'warning' : 'default'}
+                        variant="outlined"
+                    />
+                )}
+                <Chip
+                    size="small"
+                    icon={<Sync />}
+                    label={`${health.signalRReconnects} reconnects`}
+                    color={health.signalRReconnects > 0 ? 'warning' : 'default'}
+                    variant="outlined"
+                />
+            </Stack>
+
+            {!dense && (
+                <Stack spacing={0.5}>
+                    <Typography variant="caption" display="block">
+                        <strong>App version:</strong> {health.appVersion || 'Unknown'}
+                    </Typography>
+                    <Typography variant="caption" display="block">
+                        <strong>Uptime:</strong> {formatUptime(health.uptimeSeconds)} ({health.visibility})
+                    </Typography>
+                    <Typography variant="caption" display="block">
+                        <strong>Last successful submit:</strong>{' '}
+                        {health.lastSuccessfulSubmitAt ? new Date(health.lastSuccessfulSubmitAt).toLocaleString() : 'None yet'}
+                    </Typography>
+                    <Typography variant="caption" display="block" color="text.secondary">
+                        Collected {new Date(health.collectedAt).toLocaleTimeString()}
+                    </Typography>
+                </Stack>
+            )}
+        </Stack>
+    );
+};
@@ -127,7 +127,10 @@ export const DeviceInfoTest: React.FC = () => {
                                     <strong>Device Name:</strong> {currentDeviceInfo.deviceName}
                                 </Typography>
                                 <Typography variant="body2">
-                                    <strong>MAC Address:</strong> {currentDeviceInfo.macAddress}
+                                    <strong>Device ID:</strong> {currentDeviceInfo.deviceId}
+                                </Typography>
+                                <Typography variant="body2">
+                                    <strong>MAC Address:</strong> {currentDeviceInfo.macAddress} (legacy)
                                 </Typography>
                                 <Typography variant="body2">
                                     <strong>IP Address:</strong> {currentDeviceInfo.ipAddress}
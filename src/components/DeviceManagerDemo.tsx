@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     Box,
     Card,
@@ -14,7 +14,8 @@ import {
     ListItemText,
     ListItemIcon,
     Divider,
-    Paper
+    FormControlLabel,
+    Switch
 } from '@mui/material';
 import {
     Devices,
@@ -24,13 +25,22 @@ import {
     Error,
     Refresh,
     Stop,
-    PlayArrow
+    PlayArrow,
+    Lock
 } from '@mui/icons-material';
 import { useDeviceManagerContext } from '../contexts/deviceManagerContext';
+import { useKioskContext } from '../contexts/useKioskContext';
 import { useSignatureRequest } from '../hooks/useSignatureRequest';
+import { useSignatureOutbox } from '../hooks/useSignatureOutbox';
+import { useNetworkStatus } from '../hooks/useNetworkStatus';
 import { SignatureRequestDialog } from './SignatureRequestDialog';
+import { SignatureCanvas } from './SignatureCanvas';
+import { SignatureReplay } from './SignatureReplay';
+import { TabletPairingCard } from './TabletPairingCard';
+import { DeviceHealthSummary } from './DeviceHealthSummary';
 import { clearDeviceInfo } from '../utils/deviceInfo';
-import type { RegisterDeviceResponse, SignatureMessageData } from '../type';
+import remoteCommands, { type RemoteCommandLogEntry } from '../services/remoteCommands';
+import type { SignatureMessageData, SignatureStrokes } from '../type';
 
 const stepDescriptions = {
     'idle': 'Ready to start device registration',
@@ -53,7 +63,15 @@ const stepProgress = {
 };
 
 export const DeviceManagerDemo: React.FC = () => {
-    const [onlineDevices, setOnlineDevices] = useState<RegisterDeviceResponse[]>([]);
+    const [testSignature, setTestSignature] = useState<string | null>(null);
+    const [testStrokes, setTestStrokes] = useState<SignatureStrokes | null>(null);
+    const [commandLog, setCommandLog] = useState<RemoteCommandLogEntry[]>([]);
+
+    useEffect(() => {
+        const unsubscribe = remoteCommands.subscribe(setCommandLog);
+        remoteCommands.getLog().then(setCommandLog);
+        return unsubscribe;
+    }, []);
 
     // Use shared device manager context instead of creating a new instance
     const {
@@ -66,6 +84,8 @@ export const DeviceManagerDemo: React.FC = () => {
         signalRConnectionId,
         isHeartbeatActive,
         lastHeartbeat,
+        lastHeartbeatReply,
+        lastHealthSnapshot,
         isReady,
         error,
         currentStep,
@@ -73,10 +93,14 @@ export const DeviceManagerDemo: React.FC = () => {
         // Actions
         registerDevice,
         disconnect,
-        retry,
-        getOnlineDevices
+        retry
     } = useDeviceManagerContext();
 
+    const { settings: kioskSettings, setKioskEnabled, lockAdmin } = useKioskContext();
+
+    const { isConnected: isNetworkConnected } = useNetworkStatus();
+    const { entries: outboxEntries, pendingCount: outboxPendingCount, failedCount: outboxFailedCount } = useSignatureOutbox(isNetworkConnected);
+
     // Signature request handling
     const {
         currentRequest,
@@ -99,19 +123,9 @@ export const DeviceManagerDemo: React.FC = () => {
         autoShowDialog: true
     });
 
-    const handleGetOnlineDevices = async () => {
-        try {
-            const devices = await getOnlineDevices();
-            setOnlineDevices(devices);
-        } catch (error) {
-            console.error('Failed to get online devices:', error);
-        }
-    };
-
     const handleClearDeviceInfo = () => {
         clearDeviceInfo();
         disconnect();
-        setOnlineDevices([]);
         window.location.reload(); // Refresh to clear all state
     };
 
@@ -217,6 +231,15 @@ export const DeviceManagerDemo: React.FC = () => {
                             Last heartbeat: {lastHeartbeat.toLocaleTimeString()}
                         </Typography>
                     )}
+
+                    {lastHeartbeatReply && (
+                        <Typography variant="caption" display="block">
+                            Server view: {lastHeartbeatReply.isOnline ? 'Online' : 'Offline'}, {lastHeartbeatReply.isAvailable ? 'Available' : 'Busy'}
+                            {lastHeartbeatReply.staffDevice
+                                ? `, mapped to ${lastHeartbeatReply.staffDevice.deviceName}`
+                                : ', not mapped to a staff device'}
+                        </Typography>
+                    )}
                 </CardContent>
             </Card>
 
@@ -257,14 +280,6 @@ export const DeviceManagerDemo: React.FC = () => {
                             Disconnect
                         </Button>
 
-                        <Button
-                            variant="outlined"
-                            color="info"
-                            onClick={handleGetOnlineDevices}
-                        >
-                            Get Online Devices ({onlineDevices.length})
-                        </Button>
-
                         <Button
                             variant="outlined"
                             color="error"
@@ -286,6 +301,9 @@ export const DeviceManagerDemo: React.FC = () => {
                 </CardContent>
             </Card>
 
+            {/* QR Pairing */}
+            <TabletPairingCard />
+
             {/* Flow Steps */}
             <Card elevation={2} sx={{ mb: 3 }}>
                 <CardContent>
@@ -331,7 +349,10 @@ export const DeviceManagerDemo: React.FC = () => {
                                     <strong>Device Name:</strong> {deviceInfo.deviceName}
                                 </Typography>
                                 <Typography variant="body2">
-                                    <strong>MAC Address:</strong> {deviceInfo.macAddress}
+                                    <strong>Device ID:</strong> {deviceInfo.deviceId}
+                                </Typography>
+                                <Typography variant="body2">
+                                    <strong>MAC Address:</strong> {deviceInfo.macAddress} (legacy)
                                 </Typography>
                                 <Typography variant="body2">
                                     <strong>IP Address:</strong> {deviceInfo.ipAddress}
@@ -363,58 +384,160 @@ export const DeviceManagerDemo: React.FC = () => {
                                     </Stack>
                                 </>
                             )}
+
+                            {lastHealthSnapshot && (
+                                <>
+                                    <Divider sx={{ my: 2 }} />
+                                    <Typography variant="subtitle2" gutterBottom>
+                                        Health (sent with last heartbeat)
+                                    </Typography>
+                                    <DeviceHealthSummary health={lastHealthSnapshot} />
+                                </>
+                            )}
                         </CardContent>
                     </Card>
                 )}
+            </Stack>
 
-                {/* Online Devices */}
-                <Card elevation={2} sx={{ flex: 1 }}>
-                    <CardContent>
-                        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-                            <Typography variant="h6">
-                                Online Devices ({onlineDevices.length})
-                            </Typography>
-                            <Button size="small" onClick={handleGetOnlineDevices}>
-                                Refresh
+            {/* Kiosk Mode */}
+            <Card elevation={2} sx={{ mt: 3 }}>
+                <CardContent>
+                    <Typography variant="h6" gutterBottom>
+                        Kiosk Mode
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                        Keeps patrons on the signing screen. Admin pages need the staff PIN; tap the header logo
+                        five times to reach them. Returns to the signing screen after {kioskSettings.idleTimeoutSeconds}s without activity.
+                    </Typography>
+
+                    <Stack direction="row" spacing={2} alignItems="center">
+                        <FormControlLabel
+                            control={
+                                <Switch
+                                    checked={kioskSettings.enabled}
+                                    onChange={(e) => setKioskEnabled(e.target.checked)}
+                                />
+                            }
+                            label={kioskSettings.enabled ? 'Enabled on this tablet' : 'Disabled on this tablet'}
+                        />
+                        {kioskSettings.enabled && (
+                            <Button
+                                variant="outlined"
+                                startIcon={<Lock />}
+                                onClick={lockAdmin}
+                            >
+                                Lock Admin Pages
                             </Button>
-                        </Box>
-                        
-                        {onlineDevices.length === 0 ? (
-                            <Typography variant="body2" color="text.secondary">
-                                No online devices found
-                            </Typography>
-                        ) : (
-                            <Stack spacing={1}>
-                                {onlineDevices.map((device) => (
-                                    <Paper key={device.id} variant="outlined" sx={{ p: 2 }}>
-                                        <Typography variant="subtitle2" gutterBottom>
-                                            {device.deviceName}
-                                        </Typography>
-                                        <Typography variant="caption" display="block">
-                                            ID: {device.id}
-                                        </Typography>
-                                        <Typography variant="caption" display="block">
-                                            IP: {device.ipAddress}
-                                        </Typography>
-                                        <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
-                                            <Chip 
-                                                label={device.isOnline ? 'Online' : 'Offline'} 
-                                                size="small"
-                                                color={device.isOnline ? 'success' : 'error'}
-                                            />
-                                            <Chip 
-                                                label={device.isAvailable ? 'Available' : 'Busy'} 
+                        )}
+                    </Stack>
+                </CardContent>
+            </Card>
+
+            {/* Signature Outbox */}
+            <Card elevation={2} sx={{ mt: 3 }}>
+                <CardContent>
+                    <Typography variant="h6" gutterBottom>
+                        Signature Outbox
+                    </Typography>
+
+                    {outboxEntries.length === 0 ? (
+                        <Typography variant="body2" color="text.secondary">
+                            Every saved signature has been delivered
+                        </Typography>
+                    ) : (
+                        <>
+                            {outboxFailedCount > 0 && (
+                                <Alert severity="error" sx={{ mb: 2 }}>
+                                    {outboxFailedCount} saved signature(s) could not be delivered and will not be retried.
+                                    Ask the patron to sign again.
+                                </Alert>
+                            )}
+                            {outboxPendingCount > 0 && (
+                                <Alert severity="info" sx={{ mb: 2 }}>
+                                    {outboxPendingCount} signature(s) waiting for the connection to return
+                                </Alert>
+                            )}
+                            <List dense>
+                                {outboxEntries.map((entry) => (
+                                    <ListItem key={entry.idempotencyKey}>
+                                        <ListItemIcon>
+                                            <Chip
+                                                label={entry.failed ? 'failed' : 'pending'}
                                                 size="small"
-                                                color={device.isAvailable ? 'primary' : 'warning'}
+                                                color={entry.failed ? 'error' : 'info'}
                                             />
-                                        </Stack>
-                                    </Paper>
+                                        </ListItemIcon>
+                                        <ListItemText
+                                            primary={`Patron ${entry.request.patronId} · document ${entry.request.documentType}`}
+                                            secondary={`${new Date(entry.createdAt).toLocaleString()} · ${entry.attempts} attempt(s)${entry.lastError ? ` · ${entry.lastError}` : ''}`}
+                                        />
+                                    </ListItem>
                                 ))}
-                            </Stack>
-                        )}
-                    </CardContent>
-                </Card>
-            </Stack>
+                            </List>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Remote Command Log */}
+            <Card elevation={2} sx={{ mt: 3 }}>
+                <CardContent>
+                    <Typography variant="h6" gutterBottom>
+                        Remote Command Log
+                    </Typography>
+
+                    {commandLog.length === 0 ? (
+                        <Typography variant="body2" color="text.secondary">
+                            No remote commands received
+                        </Typography>
+                    ) : (
+                        <List dense>
+                            {commandLog.slice(0, 10).map((entry) => (
+                                <ListItem key={entry.refusalId ?? entry.commandId}>
+                                    <ListItemIcon>
+                                        <Chip
+                                            label={entry.status}
+                                            size="small"
+                                            color={entry.status === 'succeeded' ? 'success' : entry.status === 'running' ? 'info' : 'error'}
+                                        />
+                                    </ListItemIcon>
+                                    <ListItemText
+                                        primary={`${entry.type} by ${entry.issuedBy || 'unknown'}`}
+                                        secondary={`${new Date(entry.receivedAt).toLocaleString()}${entry.message ? ` · ${entry.message}` : ''}`}
+                                    />
+                                </ListItem>
+                            ))}
+                        </List>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Signature Replay */}
+            <Card elevation={2} sx={{ mt: 3 }}>
+                <CardContent>
+                    <Typography variant="h6" gutterBottom>
+                        Signature Replay
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                        Draw a test signature to check stroke capture on this device, then replay it.
+                    </Typography>
+
+                    <Stack direction={{ xs: 'column', md: 'row' }} spacing={3}>
+                        <Box sx={{ flex: 1 }}>
+                            <SignatureCanvas
+                                onSignatureChange={setTestSignature}
+                                onStrokesChange={setTestStrokes}
+                            />
+                        </Box>
+                        <Box sx={{ flex: 1 }}>
+                            <SignatureReplay
+                                strokes={testStrokes}
+                                imageUrl={testSignature}
+                            />
+                        </Box>
+                    </Stack>
+                </CardContent>
+            </Card>
 
             {/* Signature Request Dialog */}
             <SignatureRequestDialog
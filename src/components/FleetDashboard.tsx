@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Card,
+    CardContent,
+    Chip,
+    Collapse,
+    IconButton,
+    LinearProgress,
+    MenuItem,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TableSortLabel,
+    TextField,
+    Typography
+} from '@mui/material';
+import { KeyboardArrowDown, KeyboardArrowUp } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import { useFleetDevices, type FleetDevice, type FleetStatus } from '../hooks/useFleetDevices';
+import { DeviceHealthSummary } from './DeviceHealthSummary';
+
+type SortKey = 'deviceName' | 'location' | 'staffDevice' | 'status' | 'lastHeartbeat' | 'appVersion';
+type StatusFilter = 'all' | 'available' | 'busy' | 'offline';
+
+// Labels are i18n keys
+const columns: { key: SortKey; label: string }[] = [
+    { key: 'deviceName', label: 'Tablet' },
+    { key: 'location', label: 'Location' },
+    { key: 'staffDevice', label: 'StaffDevice' },
+    { key: 'status', label: 'Status' },
+    { key: 'lastHeartbeat', label: 'LastHeartbeat' },
+    { key: 'appVersion', label: 'AppVersion' }
+];
+
+const statusChips: Record<FleetStatus, { label: string; color: 'success' | 'error' | 'primary' | 'warning' }> = {
+    online: { label: 'Online', color: 'success' },
+    offline: { label: 'Offline', color: 'error' },
+    available: { label: 'Available', color: 'primary' },
+    busy: { label: 'Busy', color: 'warning' }
+};
+
+// A heartbeat older than this is shown as stale
+const STALE_HEARTBEAT_MS = 90 * 1000;
+
+const currentStatus = ({ device }: FleetDevice): Exclude<FleetStatus, 'online'> =>
+    !device.isOnline ? 'offline' : device.isAvailable ? 'available' : 'busy';
+
+const heartbeatTime = ({ device }: FleetDevice): number =>
+    device.lastHeartbeat ? Date.parse(device.lastHeartbeat) : 0;
+
+const sortValue = (entry: FleetDevice, key: SortKey): string | number => {
+    switch (key) {
+        case 'deviceName': return entry.device.deviceName.toLowerCase();
+        case 'location': return (entry.mapping?.location ?? '').toLowerCase();
+        case 'staffDevice': return (entry.mapping?.staffDevice?.deviceName ?? '').toLowerCase();
+        case 'status': return currentStatus(entry);
+        case 'lastHeartbeat': return heartbeatTime(entry);
+        case 'appVersion': return entry.device.health?.appVersion ?? '';
+    }
+};
+
+const formatAge = (timestamp: number, now: number, t: TFunction): string => {
+    if (!timestamp) return t('Never');
+    const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+    if (seconds < 60) return t('SecondsAgo', { count: seconds });
+    if (seconds < 3600) return t('MinutesAgo', { count: Math.floor(seconds / 60) });
+    return t('HoursAgo', { count: Math.floor(seconds / 3600) });
+};
+
+const FleetRow: React.FC<{ entry: FleetDevice; now: number }> = ({ entry, now }) => {
+    const [open, setOpen] = useState(false);
+    const { t } = useTranslation();
+    const { device, mapping, timeline } = entry;
+    const status = statusChips[currentStatus(entry)];
+    const lastHeartbeat = heartbeatTime(entry);
+
+    return (
+        <>
+            <TableRow hover sx={{ '& > *': { borderBottom: 'unset' } }}>
+                <TableCell padding="checkbox">
+                    <IconButton size="small" onClick={() => setOpen(!open)}>
+                        {open ? <KeyboardArrowUp /> : <KeyboardArrowDown />}
+                    </IconButton>
+                </TableCell>
+                <TableCell>
+                    <Typography variant="body2" fontWeight={600}>{device.deviceName}</Typography>
+                    <Typography variant="caption" color="text.secondary">{device.ipAddress}</Typography>
+                </TableCell>
+                <TableCell>{mapping?.location || '—'}</TableCell>
+                <TableCell>
+                    {mapping?.staffDevice ? (
+                        <Stack direction="row" spacing={1} alignItems="center">
+                            <span>{mapping.staffDevice.deviceName}</span>
+                            <Chip
+                                size="small"
+                                label={mapping.staffDevice.isOnline ? t('Online') : t('Offline')}
+                                color={mapping.staffDevice.isOnline ? 'success' : 'default'}
+                                variant="outlined"
+                            />
+                        </Stack>
+                    ) : t('NotMapped')}
+                </TableCell>
+                <TableCell>
+                    <Chip size="small" label={t(status.label)} color={status.color} />
+                </TableCell>
+                <TableCell>
+                    <Typography
+                        variant="body2"
+                        color={lastHeartbeat && now - lastHeartbeat > STALE_HEARTBEAT_MS ? 'error' : 'text.primary'}
+                    >
+                        {formatAge(lastHeartbeat, now, t)}
+                    </Typography>
+                </TableCell>
+                <TableCell>{device.health?.appVersion || '—'}</TableCell>
+            </TableRow>
+            <TableRow>
+                <TableCell sx={{ py: 0 }} colSpan={columns.length + 1}>
+                    <Collapse in={open} timeout="auto" unmountOnExit>
+                        <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} sx={{ py: 2 }}>
+                            <Box sx={{ flex: 1 }}>
+                                <Typography variant="subtitle2" gutterBottom>{t('StatusTimeline')}</Typography>
+                                {timeline.length === 0 ? (
+                                    <Typography variant="body2" color="text.secondary">{t('NoStatusChangesYet')}</Typography>
+                                ) : (
+                                    <Stack spacing={0.5}>
+                                        {timeline.map((event, index) => (
+                                            <Stack key={`${event.at}-${index}`} direction="row" spacing={1} alignItems="center">
+                                                <Typography variant="caption" sx={{ minWidth: 80 }}>
+                                                    {new Date(event.at).toLocaleTimeString()}
+                                                </Typography>
+                                                <Chip
+                                                    size="small"
+                                                    label={t(statusChips[event.status].label)}
+                                                    color={statusChips[event.status].color}
+                                                    variant="outlined"
+                                                />
+                                            </Stack>
+                                        ))}
+                                    </Stack>
+                                )}
+                            </Box>
+                            <Box sx={{ flex: 1 }}>
+                                <Typography variant="subtitle2" gutterBottom>{t('Health')}</Typography>
+                                {device.health ? (
+                                    <DeviceHealthSummary health={device.health} />
+                                ) : (
+                                    <Typography variant="body2" color="text.secondary">{t('NoHealthReportedYet')}</Typography>
+                                )}
+                            </Box>
+                        </Stack>
+                    </Collapse>
+                </TableCell>
+            </TableRow>
+        </>
+    );
+};
+
+/**
+ * Fleet view of every patron tablet, kept live by the hub's fleet monitor events
+ */
+export const FleetDashboard: React.FC = () => {
+    const { devices, isLoading, error, lastUpdated } = useFleetDevices();
+    const { t } = useTranslation();
+    const [sortKey, setSortKey] = useState<SortKey>('deviceName');
+    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [now, setNow] = useState(Date.now());
+
+    // Keep heartbeat ages current between hub events
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 5000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const rows = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        const filtered = devices.filter(entry => {
+            if (statusFilter !== 'all' && currentStatus(entry) !== statusFilter) return false;
+            if (!query) return true;
+            return [entry.device.deviceName, entry.mapping?.location, entry.mapping?.staffDevice?.deviceName]
+                .some(value => value?.toLowerCase().includes(query));
+        });
+
+        const direction = sortDirection === 'asc' ? 1 : -1;
+        return filtered.sort((a, b) => {
+            const left = sortValue(a, sortKey);
+            const right = sortValue(b, sortKey);
+            return (left < right ? -1 : left > right ? 1 : 0) * direction;
+        });
+    }, [devices, search, statusFilter, sortKey, sortDirection]);
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+        } else {
+            setSortKey(key);
+            setSortDirection('asc');
+        }
+    };
+
+    const counts = useMemo(() => ({
+        available: devices.filter(entry => currentStatus(entry) === 'available').length,
+        busy: devices.filter(entry => currentStatus(entry) === 'busy').length,
+        offline: devices.filter(entry => currentStatus(entry) === 'offline').length
+    }), [devices]);
+
+    return (
+        <Card elevation={4} sx={{ mb: 3 }}>
+            <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+                    <Typography variant="h6">
+                        {t('PatronTabletFleet', { count: devices.length })}
+                    </Typography>
+                    <Stack direction="row" spacing={1}>
+                        <Chip size="small" label={t('AvailableCount', { count: counts.available })} color="primary" variant="outlined" />
+                        <Chip size="small" label={t('BusyCount', { count: counts.busy })} color="warning" variant="outlined" />
+                        <Chip size="small" label={t('OfflineCount', { count: counts.offline })} color="error" variant="outlined" />
+                    </Stack>
+                </Box>
+
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 2 }}>
+                    <TextField
+                        size="small"
+                        label={t('SearchFleet')}
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        sx={{ flex: 1 }}
+                    />
+                    <TextField
+                        select
+                        size="small"
+                        label={t('Status')}
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                        sx={{ minWidth: 160 }}
+                    >
+                        <MenuItem value="all">{t('All')}</MenuItem>
+                        <MenuItem value="available">{t('Available')}</MenuItem>
+                        <MenuItem value="busy">{t('Busy')}</MenuItem>
+                        <MenuItem value="offline">{t('Offline')}</MenuItem>
+                    </TextField>
+                </Stack>
+
+                {isLoading && <LinearProgress sx={{ mb: 1 }} />}
+
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                <TableContainer>
+                    <Table size="small">
+                        <TableHead>
+                            <TableRow>
+                                <TableCell padding="checkbox" />
+                                {columns.map(column => (
+                                    <TableCell key={column.key} sortDirection={sortKey === column.key ? sortDirection : false}>
+                                        <TableSortLabel
+                                            active={sortKey === column.key}
+                                            direction={sortKey === column.key ? sortDirection : 'asc'}
+                                            onClick={() => handleSort(column.key)}
+                                        >
+                                            {t(column.label)}
+                                        </TableSortLabel>
+                                    </TableCell>
+                                ))}
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {rows.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={columns.length + 1}>
+                                        <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+                                            {devices.length === 0 ? t('NoPatronTabletsFound') : t('NoTabletsMatchFilters')}
+                                        </Typography>
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
+                                rows.map(entry => <FleetRow key={entry.device.id} entry={entry} now={now} />)
+                            )}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+
+                {lastUpdated && (
+                    <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 1 }}>
+                        {t('FleetLastUpdate', { time: lastUpdated.toLocaleTimeString() })}
+                    </Typography>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, Dialog, Stack, Typography, useMediaQuery } from '@mui/material';
+import { Check, Close, ScreenRotation } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { SignatureCanvas } from './SignatureCanvas';
+import type { SignatureStrokes } from '../type';
+
+interface FullScreenSignaturePadProps {
+    open: boolean;
+    patronName?: string;
+    documentTitle?: string;
+    // Same contract as SignatureCanvas; only called when the patron confirms with Done
+    onSignatureChange: (signature: string | null) => void;
+    onStrokesChange?: (strokes: SignatureStrokes | null) => void;
+    onDrawingStart?: () => void;
+    onClose: () => void;
+}
+
+// Screen Orientation lock is not in every DOM lib version, and iOS Safari does not implement it
+type LockableOrientation = ScreenOrientation & {
+    lock?: (orientation: 'landscape') => Promise<void>;
+};
+
+/**
+ * Full-viewport landscape signing surface with a baseline guide
+ */
+export const FullScreenSignaturePad: React.FC<FullScreenSignaturePadProps> = ({
+    open,
+    patronName,
+    documentTitle,
+    onSignatureChange,
+    onStrokesChange,
+    onDrawingStart,
+    onClose
+}) => {
+    const [signature, setSignature] = useState<string | null>(null);
+    const [strokes, setStrokes] = useState<SignatureStrokes | null>(null);
+    const enteredFullscreenRef = useRef(false);
+    const isPortrait = useMediaQuery('(orientation: portrait)');
+    const { t } = useTranslation();
+
+    // Enter browser full screen and try to lock landscape while open
+    useEffect(() => {
+        if (!open) return;
+
+        setSignature(null);
+        setStrokes(null);
+
+        const enterLandscape = async () => {
+            try {
+                if (!document.fullscreenElement && document.documentElement.requestFullscreen) {
+                    await document.documentElement.requestFullscreen();
+                    enteredFullscreenRef.current = true;
+                }
+                await (screen.orientation as LockableOrientation | undefined)?.lock?.('landscape');
+                console.log('✅ Full-screen signing locked to landscape');
+            } catch (error) {
+                // Falls back to asking the patron to rotate the device
+                console.warn('⚠️ Could not lock landscape orientation:', error);
+            }
+        };
+
+        enterLandscape();
+
+        return () => {
+            screen.orientation?.unlock?.();
+            if (enteredFullscreenRef.current && document.fullscreenElement) {
+                document.exitFullscreen().catch(() => undefined);
+            }
+            enteredFullscreenRef.current = false;
+        };
+    }, [open]);
+
+    // Rotating to portrait unmounts the canvas and its strokes; never submit a signature no longer shown
+    useEffect(() => {
+        if (!isPortrait) return;
+        setSignature(null);
+        setStrokes(null);
+    }, [isPortrait]);
+
+    const handleDone = () => {
+        if (!signature || isPortrait) return;
+        onSignatureChange(signature);
+        onStrokesChange?.(strokes);
+        onClose();
+    };
+
+    const baselineGuide = (
+        <>
+            {documentTitle && (
+                <Typography
+                    variant="subtitle1"
+                    sx={{ position: 'absolute', top: 16, left: 24, color: 'text.secondary', fontWeight: 600 }}
+                >
+                    {documentTitle}
+                </Typography>
+            )}
+            <Box sx={{ position: 'absolute', left: '8%', right: '8%', bottom: '28%' }}>
+                <Typography variant="h4" sx={{ color: '#bbb', lineHeight: 1, mb: 1 }}>
+                    ✕
+                </Typography>
+                <Box sx={{ borderBottom: '2px solid #bbb' }} />
+                {patronName && (
+                    <Typography variant="h6" sx={{ mt: 1, color: 'text.secondary', textAlign: 'center' }}>
+                        {patronName}
+                    </Typography>
+                )}
+            </Box>
+        </>
+    );
+
+    return (
+        <Dialog fullScreen open={open} onClose={onClose}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%', bgcolor: '#f9f9f9' }}>
+                {isPortrait ? (
+                    <Stack
+                        spacing={2}
+                        alignItems="center"
+                        justifyContent="center"
+                        sx={{ flex: 1, p: 4, textAlign: 'center' }}
+                    >
+                        <ScreenRotation sx={{ fontSize: 72, color: '#274549' }} />
+                        <Typography variant="h6">
+                            {t("RotateToLandscape")}
+                        </Typography>
+                    </Stack>
+                ) : (
+                    <Box sx={{ flex: 1, minHeight: 0, p: 1 }}>
+                        <SignatureCanvas
+                            fillContainer
+                            guide={baselineGuide}
+                            onSignatureChange={setSignature}
+                            onStrokesChange={setStrokes}
+                            onDrawingStart={onDrawingStart}
+                        />
+                    </Box>
+                )}
+
+                <Stack direction="row" spacing={2} justifyContent="flex-end" sx={{ p: 2, borderTop: '1px solid #ddd' }}>
+                    <Button variant="outlined" startIcon={<Close />} onClick={onClose}>
+                        {t("Cancel")}
+                    </Button>
+                    <Button
+                        variant="contained"
+                        startIcon={<Check />}
+                        onClick={handleDone}
+                        disabled={!signature || isPortrait}
+                        sx={{ bgcolor: '#274549', '&:hover': { bgcolor: '#1a3033' } }}
+                    >
+                        {t("Done")}
+                    </Button>
+                </Stack>
+            </Box>
+        </Dialog>
+    );
+};
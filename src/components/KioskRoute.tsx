@@ -0,0 +1,12 @@
+import React from 'react';
+import type { ReactNode } from 'react';
+import { useKioskContext } from '../contexts/useKioskContext';
+import StaffUnlock from '../pages/StaffUnlock';
+
+/**
+ * Wraps an admin route; in kiosk mode it asks for the staff PIN until admin routes are unlocked
+ */
+export const KioskRoute: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { isAdminUnlocked } = useKioskContext();
+    return isAdminUnlocked ? <>{children}</> : <StaffUnlock />;
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { Build } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { useRemoteCommands } from '../hooks/useRemoteCommands';
+
+/**
+ * Global remote command handler
+ * Placed at app level next to SignatureRequestHandler; covers the app while a maintenance screen is active
+ */
+export const RemoteCommandHandler: React.FC = () => {
+    const { maintenance } = useRemoteCommands();
+    const { t } = useTranslation();
+
+    if (!maintenance) return null;
+
+    return (
+        <Box sx={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: (theme) => theme.zIndex.modal + 1,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            textAlign: 'center',
+            bgcolor: '#f5f7fa',
+            px: 3
+        }}>
+            <Build sx={{ fontSize: 72, color: '#274549', mb: 3 }} />
+            <Typography variant="h4" sx={{ fontWeight: 600, color: '#274549', mb: 2 }}>
+                {t("UnderMaintenance")}
+            </Typography>
+            <Typography variant="h6" color="text.secondary" sx={{ maxWidth: 560 }}>
+                {maintenance.message || t("UnderMaintenanceMessage")}
+            </Typography>
+        </Box>
+    );
+};
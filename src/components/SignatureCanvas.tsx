@@ -1,20 +1,65 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Box, Button, Typography, Stack, Alert, useTheme, useMediaQuery } from '@mui/material';
-import { Clear, Edit } from '@mui/icons-material';
+import { Box, Button, IconButton, Tooltip, Typography, Stack, Alert, useTheme, useMediaQuery } from '@mui/material';
+import { Clear, Edit, Undo, Redo } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
+import type { SignaturePoint, SignatureStroke, SignatureStrokes } from '../type';
 
 interface SignatureCanvasProps {
     width?: number;
     height?: number;
     onSignatureChange?: (signature: string | null) => void;
+    // Raw stroke data (points with timing and pressure), emitted together with onSignatureChange
+    onStrokesChange?: (strokes: SignatureStrokes | null) => void;
+    // Fired when the first stroke of an empty signature begins
+    onDrawingStart?: () => void;
     disabled?: boolean;
+    // Size the canvas to its parent instead of the responsive breakpoints (full-screen signing)
+    fillContainer?: boolean;
+    // Non-interactive content drawn over the canvas, e.g. a baseline guide; not part of the exported image
+    guide?: React.ReactNode;
 }
 
+// Paint strokes with the context's current style
+const paintStrokes = (ctx: CanvasRenderingContext2D, strokes: SignatureStroke[]) => {
+    for (const stroke of strokes) {
+        const [first, ...rest] = stroke.points;
+        if (!first) continue;
+
+        ctx.beginPath();
+        ctx.moveTo(first.x, first.y);
+        rest.forEach(point => ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+    }
+};
+
+// Fit strokes drawn on one canvas size into another without distorting them: one scale factor for
+// both axes, centred on the axis with room to spare. Returns new points; emitted snapshots share the old ones.
+const fitStrokes = (
+    strokes: SignatureStroke[],
+    from: { width: number; height: number },
+    to: { width: number; height: number }
+): SignatureStroke[] => {
+    const scale = Math.min(to.width / from.width, to.height / from.height);
+    const offsetX = (to.width - from.width * scale) / 2;
+    const offsetY = (to.height - from.height * scale) / 2;
+    return strokes.map(stroke => ({
+        points: stroke.points.map(point => ({
+            ...point,
+            x: point.x * scale + offsetX,
+            y: point.y * scale + offsetY
+        }))
+    }));
+};
+
 export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
     width,
     height,
     onSignatureChange,
-    disabled = false
+    onStrokesChange,
+    onDrawingStart,
+    disabled = false,
+    fillContainer = false,
+    guide
 }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -22,6 +67,16 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
     const [isEmpty, setIsEmpty] = useState(true);
     const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
     const [canvasSize, setCanvasSize] = useState({ width: 500, height: 200 });
+    const strokesRef = useRef<SignatureStroke[]>([]);
+    // Strokes removed by undo, most recent last; cleared as soon as a new stroke is drawn
+    const redoStackRef = useRef<SignatureStroke[]>([]);
+    const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+    const startedAtRef = useRef<number | null>(null);
+    // Start time of a history that undo emptied, restored if the strokes are redone
+    const undoneStartedAtRef = useRef<number | null>(null);
+    // Size the current strokes were captured at, so a resize can rescale them
+    const drawnSizeRef = useRef<{ width: number; height: number } | null>(null);
+    const emitChangeRef = useRef<() => void>(() => undefined);
     const { t } = useTranslation();
     const theme = useTheme();
     const isMobile = useMediaQuery(theme.breakpoints.down('md'));
@@ -30,6 +85,15 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
     // Calculate responsive canvas size
     useEffect(() => {
         const calculateSize = () => {
+            // Full-screen mode takes whatever the parent gives it, minus the 2px dashed border
+            if (fillContainer && containerRef.current) {
+                setCanvasSize({
+                    width: Math.max(containerRef.current.offsetWidth - 4, 300),
+                    height: Math.max(containerRef.current.offsetHeight - 4, 150)
+                });
+                return;
+            }
+
             let containerWidth = 700; // default width
 
             // Get actual container width if available
@@ -73,7 +137,7 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
             clearTimeout(timer);
             window.removeEventListener('resize', handleResize);
         };
-    }, [width, height, isMobile, isTablet]);
+    }, [width, height, isMobile, isTablet, fillContainer]);
 
     // Initialize canvas
     useEffect(() => {
@@ -97,13 +161,30 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
         ctx.fillStyle = '#ffffff';
         ctx.fillRect(0, 0, canvasSize.width, canvasSize.height);
 
+        // Resizing wipes the bitmap; scale the captured strokes to the new size and paint them again
+        const previous = drawnSizeRef.current;
+        const current = { width: canvasSize.width, height: canvasSize.height };
+        drawnSizeRef.current = current;
+        if (previous && (previous.width !== current.width || previous.height !== current.height)) {
+            strokesRef.current = fitStrokes(strokesRef.current, previous, current);
+            redoStackRef.current = fitStrokes(redoStackRef.current, previous, current);
+            if (strokesRef.current.length > 0) {
+                paintStrokes(ctx, strokesRef.current);
+                emitChangeRef.current();
+            }
+        }
+
         setContext(ctx);
     }, [canvasSize.width, canvasSize.height]);
 
-    // Get mouse/touch position with proper scaling
-    const getPosition = useCallback((event: React.MouseEvent | React.TouchEvent) => {
+    // Get pointer position with proper scaling, plus timing and pressure for stroke capture
+    const getPoint = useCallback((event: React.PointerEvent): SignaturePoint => {
         const canvas = canvasRef.current;
-        if (!canvas) return { x: 0, y: 0 };
+        const now = Date.now();
+        if (startedAtRef.current === null) {
+            startedAtRef.current = now;
+        }
+        if (!canvas) return { x: 0, y: 0, t: now - startedAtRef.current };
 
         const rect = canvas.getBoundingClientRect();
 
@@ -111,60 +192,153 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
         const scaleX = canvas.width / rect.width;
         const scaleY = canvas.height / rect.height;
 
-        if ('touches' in event) {
-            // Touch event
-            const touch = event.touches[0] || event.changedTouches[0];
-            return {
-                x: (touch.clientX - rect.left) * scaleX,
-                y: (touch.clientY - rect.top) * scaleY
-            };
-        } else {
-            // Mouse event
-            return {
-                x: (event.clientX - rect.left) * scaleX,
-                y: (event.clientY - rect.top) * scaleY
-            };
+        const point: SignaturePoint = {
+            x: (event.clientX - rect.left) * scaleX,
+            y: (event.clientY - rect.top) * scaleY,
+            t: now - startedAtRef.current
+        };
+
+        // Mice report a fixed 0.5 while pressed, so only keep pressure from pen/touch input
+        if (event.pointerType !== 'mouse' && event.pressure > 0) {
+            point.pressure = event.pressure;
         }
+
+        return point;
+    }, []);
+
+    // Snapshot of the captured strokes in the shape consumers receive
+    const buildStrokes = useCallback((): SignatureStrokes | null => {
+        if (strokesRef.current.length === 0 || startedAtRef.current === null) return null;
+        return {
+            width: canvasSize.width,
+            height: canvasSize.height,
+            startedAt: startedAtRef.current,
+            strokes: strokesRef.current.map(stroke => ({ points: stroke.points.map(point => ({ ...point })) }))
+        };
+    }, [canvasSize.width, canvasSize.height]);
+
+    const syncHistory = useCallback(() => {
+        setHistory({
+            canUndo: strokesRef.current.length > 0,
+            canRedo: redoStackRef.current.length > 0
+        });
     }, []);
 
+    // Notify parent with the current image and strokes, or null when nothing is left
+    const emitChange = useCallback(() => {
+        const canvas = canvasRef.current;
+        const hasStrokes = strokesRef.current.length > 0;
+
+        if (onSignatureChange) {
+            onSignatureChange(hasStrokes && canvas ? canvas.toDataURL('image/png') : null);
+        }
+        onStrokesChange?.(buildStrokes());
+    }, [onSignatureChange, onStrokesChange, buildStrokes]);
+    emitChangeRef.current = emitChange;
+
+    // Repaint the canvas from the stroke history
+    const redrawStrokes = useCallback(() => {
+        if (!context) return;
+
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvasSize.width, canvasSize.height);
+        paintStrokes(context, strokesRef.current);
+
+        setIsEmpty(strokesRef.current.length === 0);
+    }, [context, canvasSize.width, canvasSize.height]);
+
+    // Remove the most recent stroke
+    const undoStroke = useCallback(() => {
+        if (disabled || isDrawing) return;
+
+        const stroke = strokesRef.current.pop();
+        if (!stroke) return;
+
+        redoStackRef.current.push(stroke);
+        // An emptied pad starts timing afresh, so the idle gap never counts towards the duration
+        if (strokesRef.current.length === 0) {
+            undoneStartedAtRef.current = startedAtRef.current;
+            startedAtRef.current = null;
+        }
+        redrawStrokes();
+        syncHistory();
+        emitChange();
+    }, [disabled, isDrawing, redrawStrokes, syncHistory, emitChange]);
+
+    // Restore the most recently undone stroke
+    const redoStroke = useCallback(() => {
+        if (disabled || isDrawing) return;
+
+        const stroke = redoStackRef.current.pop();
+        if (!stroke) return;
+
+        if (startedAtRef.current === null) {
+            startedAtRef.current = undoneStartedAtRef.current;
+        }
+        strokesRef.current.push(stroke);
+        redrawStrokes();
+        syncHistory();
+        emitChange();
+    }, [disabled, isDrawing, redrawStrokes, syncHistory, emitChange]);
+
+    // Keyboard shortcuts for desktop testing: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo
+    useEffect(() => {
+        if (disabled) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName))) return;
+            if (!(event.ctrlKey || event.metaKey)) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undoStroke();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                redoStroke();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [disabled, undoStroke, redoStroke]);
+
     // Start drawing
-    const startDrawing = useCallback((event: React.MouseEvent | React.TouchEvent) => {
+    const startDrawing = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
         if (disabled || !context) return;
 
-        // Only preventDefault for non-passive events
-        if ('touches' in event) {
-            // For touch events, rely on CSS touch-action: none instead
-        } else {
-            event.preventDefault();
-        }
+        // Touch scrolling is disabled through CSS touch-action: none
+        event.preventDefault();
+        event.currentTarget.setPointerCapture?.(event.pointerId);
 
-        const { x, y } = getPosition(event);
+        const point = getPoint(event);
+        if (strokesRef.current.length === 0) {
+            onDrawingStart?.();
+        }
+        strokesRef.current.push({ points: [point] });
 
         setIsDrawing(true);
         context.beginPath();
-        context.moveTo(x, y);
-    }, [disabled, context, getPosition]);
+        context.moveTo(point.x, point.y);
+    }, [disabled, context, getPoint, onDrawingStart]);
 
     // Continue drawing
-    const draw = useCallback((event: React.MouseEvent | React.TouchEvent) => {
+    const draw = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
         if (!isDrawing || disabled || !context) return;
 
-        // Only preventDefault for non-passive events
-        if ('touches' in event) {
-            // For touch events, rely on CSS touch-action: none instead
-        } else {
-            event.preventDefault();
-        }
+        event.preventDefault();
 
-        const { x, y } = getPosition(event);
+        const point = getPoint(event);
+        strokesRef.current[strokesRef.current.length - 1]?.points.push(point);
 
-        context.lineTo(x, y);
+        context.lineTo(point.x, point.y);
         context.stroke();
 
         if (isEmpty) {
             setIsEmpty(false);
         }
-    }, [isDrawing, disabled, context, getPosition, isEmpty]);
+    }, [isDrawing, disabled, context, getPoint, isEmpty]);
 
     // Stop drawing
     const stopDrawing = useCallback(() => {
@@ -172,15 +346,23 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
 
         setIsDrawing(false);
 
+        // A tap without movement leaves no ink, so keep the vector data in sync with the image
+        const lastStroke = strokesRef.current[strokesRef.current.length - 1];
+        if (lastStroke && lastStroke.points.length < 2) {
+            strokesRef.current.pop();
+            return;
+        }
+
+        // A new stroke starts a new branch of history
+        redoStackRef.current = [];
+        undoneStartedAtRef.current = null;
+        syncHistory();
+
         // Notify parent of signature change
-        if (!isEmpty && onSignatureChange) {
-            const canvas = canvasRef.current;
-            if (canvas) {
-                const dataURL = canvas.toDataURL('image/png');
-                onSignatureChange(dataURL);
-            }
+        if (!isEmpty) {
+            emitChange();
         }
-    }, [isDrawing, isEmpty, onSignatureChange]);
+    }, [isDrawing, isEmpty, syncHistory, emitChange]);
 
     // Clear signature
     const clearSignature = useCallback(() => {
@@ -190,21 +372,28 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
         context.fillRect(0, 0, canvasSize.width, canvasSize.height);
 
         setIsEmpty(true);
+        strokesRef.current = [];
+        redoStackRef.current = [];
+        startedAtRef.current = null;
+        undoneStartedAtRef.current = null;
+        syncHistory();
 
         if (onSignatureChange) {
             onSignatureChange(null);
         }
-    }, [context, canvasSize.width, canvasSize.height, onSignatureChange]);
+        onStrokesChange?.(null);
+    }, [context, canvasSize.width, canvasSize.height, onSignatureChange, onStrokesChange, syncHistory]);
 
     return (
         <Box
             ref={containerRef}
             sx={{
-                border: '1px solid #ddd',
+                border: fillContainer ? 'none' : '1px solid #ddd',
                 borderRadius: 1,
-                p: { xs: 1, sm: 2 },
+                p: fillContainer ? 0 : { xs: 1, sm: 2 },
                 bgcolor: 'background.paper',
-                width: '100%'
+                width: '100%',
+                height: fillContainer ? '100%' : 'auto'
             }}
         >
             {/* <Typography variant="body2" color="text.secondary" sx={{ mb: 1, textAlign: 'center' }}>
@@ -220,34 +409,74 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
                 width: '100%',
                 position: 'relative',
                 bgcolor: '#fafafa',
-                height: `${canvasSize.height}px`, // dynamic height matches actual canvas size
+                height: fillContainer ? '100%' : `${canvasSize.height}px`, // dynamic height matches actual canvas size
                 transition: 'height 0.2s ease'
             }}>
-                {/* Clear button inside canvas - top right corner */}
-                <Button
-                    variant="outlined"
-                    color="error"
-                    startIcon={<Clear />}
-                    onClick={clearSignature}
-                    disabled={disabled || isEmpty}
-                    size="small"
+                {/* Undo/Redo and Clear buttons inside canvas - top right corner */}
+                <Stack
+                    direction="row"
+                    spacing={0.5}
+                    alignItems="center"
                     sx={{
                         position: 'absolute',
                         top: 8,
                         right: 8,
-                        zIndex: 10,
-                        bgcolor: 'white',
-                        minWidth: 'auto',
-                        px: 1.5,
-                        py: 0.5,
-                        fontSize: '0.75rem',
-                        '&:hover': {
-                            bgcolor: 'white'
-                        }
+                        zIndex: 10
                     }}
                 >
-                    {t("Clear")}
-                </Button>
+                    <Tooltip title={t("Undo")}>
+                        <span>
+                            <IconButton
+                                onClick={undoStroke}
+                                disabled={disabled || !history.canUndo}
+                                size="small"
+                                aria-label={t("Undo")}
+                                sx={{ bgcolor: 'white', '&:hover': { bgcolor: 'white' } }}
+                            >
+                                <Undo fontSize="small" />
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                    <Tooltip title={t("Redo")}>
+                        <span>
+                            <IconButton
+                                onClick={redoStroke}
+                                disabled={disabled || !history.canRedo}
+                                size="small"
+                                aria-label={t("Redo")}
+                                sx={{ bgcolor: 'white', '&:hover': { bgcolor: 'white' } }}
+                            >
+                                <Redo fontSize="small" />
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                    <Button
+                        variant="outlined"
+                        color="error"
+                        startIcon={<Clear />}
+                        onClick={clearSignature}
+                        disabled={disabled || isEmpty}
+                        size="small"
+                        sx={{
+                            bgcolor: 'white',
+                            minWidth: 'auto',
+                            px: 1.5,
+                            py: 0.5,
+                            fontSize: '0.75rem',
+                            '&:hover': {
+                                bgcolor: 'white'
+                            }
+                        }}
+                    >
+                        {t("Clear")}
+                    </Button>
+                </Stack>
+
+                {guide && (
+                    <Box sx={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 1 }}>
+                        {guide}
+                    </Box>
+                )}
 
                 <canvas
                     ref={canvasRef}
@@ -260,13 +489,11 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
                         height: '100%', // fill container height exactly
                         border: 'none'
                     }}
-                    onMouseDown={startDrawing}
-                    onMouseMove={draw}
-                    onMouseUp={stopDrawing}
-                    onMouseLeave={stopDrawing}
-                    onTouchStart={startDrawing}
-                    onTouchMove={draw}
-                    onTouchEnd={stopDrawing}
+                    onPointerDown={startDrawing}
+                    onPointerMove={draw}
+                    onPointerUp={stopDrawing}
+                    onPointerLeave={stopDrawing}
+                    onPointerCancel={stopDrawing}
                 />
             </Box>
 
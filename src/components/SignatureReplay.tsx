@@ -0,0 +1,204 @@
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { Box, IconButton, Slider, Stack, Typography, Alert } from '@mui/material';
+import { PlayArrow, Pause, Replay } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { SignatureStrokes } from '../type';
+
+interface SignatureReplayProps {
+    // Vector signature captured by SignatureCanvas
+    strokes?: SignatureStrokes | null;
+    // Still image for legacy PNG-only signatures (or when strokes are unavailable)
+    imageUrl?: string | null;
+    autoPlay?: boolean;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Plays a captured signature back stroke by stroke at the speed it was drawn
+ */
+export const SignatureReplay: React.FC<SignatureReplayProps> = ({
+    strokes,
+    imageUrl,
+    autoPlay = false
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const frameRef = useRef<number | null>(null);
+    const playStartRef = useRef<number>(0);
+    const [elapsed, setElapsed] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const { t } = useTranslation();
+
+    const hasStrokes = !!strokes && strokes.strokes.some(stroke => stroke.points.length > 0);
+
+    // Replay length is the timestamp of the last captured point
+    const duration = useMemo(() => {
+        if (!strokes) return 0;
+        return strokes.strokes.reduce((max, stroke) => {
+            const last = stroke.points[stroke.points.length - 1];
+            return last ? Math.max(max, last.t) : max;
+        }, 0);
+    }, [strokes]);
+
+    // Draw every point captured up to the given time
+    const render = useCallback((time: number) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !strokes) return;
+
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.strokeStyle = '#000000';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+
+        for (const stroke of strokes.strokes) {
+            for (let i = 1; i < stroke.points.length; i++) {
+                const from = stroke.points[i - 1];
+                const to = stroke.points[i];
+                if (to.t > time) break;
+
+                // Pen/touch pressure widens the line; mouse input keeps the canvas default of 2px
+                ctx.lineWidth = to.pressure !== undefined ? 1 + to.pressure * 2 : 2;
+                ctx.beginPath();
+                ctx.moveTo(from.x, from.y);
+                ctx.lineTo(to.x, to.y);
+                ctx.stroke();
+            }
+        }
+    }, [strokes]);
+
+    const stopAnimation = useCallback(() => {
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        }
+    }, []);
+
+    // Size the canvas to the captured coordinate space and show the full signature
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !strokes) return;
+
+        canvas.width = strokes.width;
+        canvas.height = strokes.height;
+
+        const startAt = autoPlay ? 0 : duration;
+        playStartRef.current = performance.now();
+        setElapsed(startAt);
+        render(startAt);
+        setIsPlaying(autoPlay);
+    }, [strokes, duration, render, autoPlay]);
+
+    // Animation loop while playing
+    useEffect(() => {
+        if (!isPlaying) {
+            stopAnimation();
+            return;
+        }
+
+        const tick = (now: number) => {
+            const time = Math.min(now - playStartRef.current, duration);
+            setElapsed(time);
+            render(time);
+
+            if (time >= duration) {
+                frameRef.current = null;
+                setIsPlaying(false);
+                return;
+            }
+            frameRef.current = requestAnimationFrame(tick);
+        };
+
+        frameRef.current = requestAnimationFrame(tick);
+        return stopAnimation;
+    }, [isPlaying, duration, render, stopAnimation]);
+
+    const handlePlayPause = () => {
+        if (isPlaying) {
+            setIsPlaying(false);
+            return;
+        }
+
+        // Restart from the beginning when the replay already finished
+        const startAt = elapsed >= duration ? 0 : elapsed;
+        playStartRef.current = performance.now() - startAt;
+        setElapsed(startAt);
+        render(startAt);
+        setIsPlaying(true);
+    };
+
+    const handleRestart = () => {
+        playStartRef.current = performance.now();
+        setElapsed(0);
+        render(0);
+        setIsPlaying(true);
+    };
+
+    const handleScrub = (_event: Event, value: number | number[]) => {
+        const time = Array.isArray(value) ? value[0] : value;
+        setIsPlaying(false);
+        setElapsed(time);
+        render(time);
+    };
+
+    if (!hasStrokes) {
+        if (imageUrl) {
+            return (
+                <Box>
+                    <Box
+                        component="img"
+                        src={imageUrl}
+                        alt={t("YourSignature")}
+                        sx={{ width: '100%', border: '1px solid #ddd', borderRadius: 1, bgcolor: '#ffffff' }}
+                    />
+                    <Typography variant="caption" color="text.secondary">
+                        {t("SignatureReplayUnavailable")}
+                    </Typography>
+                </Box>
+            );
+        }
+
+        return (
+            <Alert severity="info">
+                {t("NoSignatureData")}
+            </Alert>
+        );
+    }
+
+    return (
+        <Box>
+            <Box sx={{ border: '1px solid #ddd', borderRadius: 1, overflow: 'hidden', bgcolor: '#ffffff' }}>
+                <canvas
+                    ref={canvasRef}
+                    style={{ display: 'block', width: '100%', height: 'auto' }}
+                />
+            </Box>
+
+            <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+                <IconButton onClick={handlePlayPause} aria-label={isPlaying ? t("Pause") : t("Play")} size="small">
+                    {isPlaying ? <Pause /> : <PlayArrow />}
+                </IconButton>
+                <IconButton onClick={handleRestart} aria-label={t("Replay")} size="small">
+                    <Replay />
+                </IconButton>
+                <Slider
+                    size="small"
+                    min={0}
+                    max={Math.max(duration, 1)}
+                    value={elapsed}
+                    onChange={handleScrub}
+                    aria-label={t("Replay")}
+                    sx={{ mx: 1 }}
+                />
+                <Typography variant="caption" sx={{ whiteSpace: 'nowrap', fontFamily: 'monospace' }}>
+                    {formatSeconds(elapsed)} / {formatSeconds(duration)}
+                </Typography>
+            </Stack>
+
+            <Typography variant="caption" color="text.secondary">
+                {t("StrokeCount", { count: strokes!.strokes.length })}
+            </Typography>
+        </Box>
+    );
+};
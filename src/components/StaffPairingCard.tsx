@@ -0,0 +1,239 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+    Alert,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    CircularProgress,
+    Stack,
+    TextField,
+    Typography
+} from '@mui/material';
+import { CheckCircle, Link as LinkIcon, QrCodeScanner } from '@mui/icons-material';
+import { signatureApiService } from '../services/signatureApiService';
+import { useDeviceManagerContext } from '../contexts/deviceManagerContext';
+import { PAIRING_CODE_PARAM, parsePairingCode } from '../utils/pairing';
+import type { DeviceMappingResponse } from '../type';
+
+// Shape-detection API; not yet in the DOM typings and missing on some browsers
+interface DetectedBarcode {
+    rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+    detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+    (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 500;
+
+/**
+ * Staff side of QR pairing: claim a tablet by scanning its QR code or typing its numeric code.
+ * Opening the QR link with any camera app lands here with the code prefilled.
+ */
+export const StaffPairingCard: React.FC = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [code, setCode] = useState(() => searchParams.get(PAIRING_CODE_PARAM) ?? '');
+    const [isClaiming, setIsClaiming] = useState(false);
+    const [isScanning, setIsScanning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [pairedMapping, setPairedMapping] = useState<DeviceMappingResponse | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    // The id this staff device was registered under; the claim links the tablet to it
+    const { registeredDevice } = useDeviceManagerContext();
+    const canScan = !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+    // The code came in through the QR link; drop it from the URL so a reload does not reuse it
+    useEffect(() => {
+        if (searchParams.has(PAIRING_CODE_PARAM)) {
+            const next = new URLSearchParams(searchParams);
+            next.delete(PAIRING_CODE_PARAM);
+            setSearchParams(next, { replace: true });
+        }
+    }, [searchParams, setSearchParams]);
+
+    const claim = useCallback(async (rawCode: string) => {
+        const pairingCode = parsePairingCode(rawCode);
+        if (!pairingCode) {
+            setError('That is not a valid pairing code');
+            return;
+        }
+        if (!registeredDevice) {
+            setError('This device is not registered yet - try again in a moment');
+            return;
+        }
+
+        setIsClaiming(true);
+        setError(null);
+        try {
+            const mapping = await signatureApiService.claimPairing({
+                Code: pairingCode,
+                StaffDeviceId: registeredDevice.id,
+                StaffDeviceName: registeredDevice.deviceName
+            });
+            console.log('✅ Paired with patron device:', mapping.patronDevice?.deviceName);
+            setPairedMapping(mapping);
+            setCode('');
+        } catch (err) {
+            console.error('❌ Pairing failed:', err);
+            setError(err instanceof Error ? err.message : 'Pairing failed');
+        } finally {
+            setIsClaiming(false);
+        }
+    }, [registeredDevice]);
+
+    // Camera scanning, polling the video frame until a pairing QR code is found
+    useEffect(() => {
+        const Detector = getBarcodeDetector();
+        if (!isScanning || !Detector) return;
+
+        const detector = new Detector({ formats: ['qr_code'] });
+        let stream: MediaStream | undefined;
+        let timer: ReturnType<typeof setInterval> | undefined;
+        let cancelled = false;
+        // A slow detect outlives the interval; the next tick is skipped rather than overlapping it
+        let isDetecting = false;
+
+        const scan = async () => {
+            const video = videoRef.current;
+            if (isDetecting || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+            isDetecting = true;
+            try {
+                const found = (await detector.detect(video))
+                    .map(barcode => parsePairingCode(barcode.rawValue))
+                    .find(Boolean);
+                if (found && !cancelled) {
+                    cancelled = true;
+                    clearInterval(timer);
+                    setIsScanning(false);
+                    claim(found);
+                }
+            } catch (err) {
+                // A frame that cannot be decoded; the next tick tries again
+                console.warn('⚠️ QR detection failed:', err);
+            } finally {
+                isDetecting = false;
+            }
+        };
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+            .then(mediaStream => {
+                stream = mediaStream;
+                if (cancelled || !videoRef.current) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                videoRef.current.srcObject = mediaStream;
+                videoRef.current.play();
+                timer = setInterval(scan, SCAN_INTERVAL_MS);
+            })
+            .catch(err => {
+                console.error('❌ Camera unavailable for pairing:', err);
+                setError('Camera unavailable - type the code instead');
+                setIsScanning(false);
+            });
+
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [isScanning, claim]);
+
+    return (
+        <Card
+            elevation={2}
+            sx={{
+                borderRadius: 3,
+                background: 'rgba(255, 255, 255, 1)',
+                border: '1px solid rgba(0, 0, 0, 0.08)',
+                boxShadow: '0 2px 15px rgba(0, 0, 0, 0.06)'
+            }}
+        >
+            <CardContent sx={{ p: 3 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                    <LinkIcon color="primary" />
+                    <Typography variant="h6" sx={{ fontWeight: 600, color: 'text.primary' }}>
+                        Pair Patron Tablet
+                    </Typography>
+                </Box>
+
+                {pairedMapping && (
+                    <Alert icon={<CheckCircle />} severity="success" sx={{ mb: 2, borderRadius: 2 }}>
+                        Paired with <strong>{pairedMapping.patronDevice?.deviceName ?? 'patron device'}</strong>
+                        {pairedMapping.location && ` (${pairedMapping.location})`}
+                    </Alert>
+                )}
+
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {isScanning ? (
+                    <Stack spacing={2} alignItems="center">
+                        <Box
+                            component="video"
+                            ref={videoRef}
+                            muted
+                            playsInline
+                            sx={{ width: '100%', maxWidth: 360, borderRadius: 2, bgcolor: 'black' }}
+                        />
+                        <Button variant="outlined" onClick={() => setIsScanning(false)}>
+                            Stop Scanning
+                        </Button>
+                    </Stack>
+                ) : (
+                    <Stack
+                        component="form"
+                        direction={{ xs: 'column', sm: 'row' }}
+                        spacing={2}
+                        onSubmit={(e: React.FormEvent) => {
+                            e.preventDefault();
+                            claim(code);
+                        }}
+                    >
+                        <TextField
+                            size="small"
+                            label="Code shown on the tablet"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            disabled={isClaiming}
+                            inputProps={{ inputMode: 'numeric', autoComplete: 'off' }}
+                            sx={{ flex: 1 }}
+                        />
+                        <Button
+                            type="submit"
+                            variant="contained"
+                            disabled={isClaiming || !code.trim()}
+                            startIcon={isClaiming ? <CircularProgress size={16} /> : <LinkIcon />}
+                        >
+                            Pair
+                        </Button>
+                        {canScan && (
+                            <Button
+                                variant="outlined"
+                                startIcon={<QrCodeScanner />}
+                                onClick={() => {
+                                    setError(null);
+                                    setIsScanning(true);
+                                }}
+                                disabled={isClaiming}
+                            >
+                                Scan QR
+                            </Button>
+                        )}
+                    </Stack>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Fade, Typography } from '@mui/material';
+import { Stars } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { useStandbyContent } from '../hooks/useStandbyContent';
+import type { StandbySettings } from '../utils/standbySettings';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const;
+
+interface StandbyScreenProps {
+    settings: StandbySettings;
+}
+
+/**
+ * Branded standby content shown between patrons: rotating slides from the backend, dimming the
+ * whole screen after a while without a touch. Unmounted as soon as a signature request arrives,
+ * which also lifts the dimming.
+ */
+export const StandbyScreen: React.FC<StandbyScreenProps> = ({ settings }) => {
+    const { t, i18n } = useTranslation();
+    const { slides } = useStandbyContent(i18n.language, settings.enabled, settings.refreshMinutes);
+    const [index, setIndex] = useState(0);
+    const [isDimmed, setIsDimmed] = useState(false);
+
+    const slide = slides.length > 0 ? slides[index % slides.length] : null;
+
+    // Rotate; each slide may stay up for its own duration
+    useEffect(() => {
+        if (slides.length < 2) return;
+        const seconds = slide?.durationSeconds ?? settings.rotationSeconds;
+        const timer = setTimeout(() => setIndex(current => (current + 1) % slides.length), seconds * 1000);
+        return () => clearTimeout(timer);
+    }, [slides.length, slide, settings.rotationSeconds]);
+
+    // Dim after inactivity; any touch wakes the screen again
+    useEffect(() => {
+        if (!settings.dimAfterSeconds) return;
+
+        let timer: ReturnType<typeof setTimeout>;
+        const handleActivity = () => {
+            setIsDimmed(false);
+            clearTimeout(timer);
+            timer = setTimeout(() => setIsDimmed(true), settings.dimAfterSeconds * 1000);
+        };
+
+        handleActivity();
+        ACTIVITY_EVENTS.forEach(type => document.addEventListener(type, handleActivity, { passive: true }));
+        return () => {
+            clearTimeout(timer);
+            ACTIVITY_EVENTS.forEach(type => document.removeEventListener(type, handleActivity));
+        };
+    }, [settings.dimAfterSeconds]);
+
+    return (
+        <>
+            <Box sx={{
+                position: 'relative',
+                minHeight: { xs: '50vh', md: '60vh' },
+                display: 'flex',
+                alignItems: 'flex-end',
+                justifyContent: 'center',
+                overflow: 'hidden',
+                color: 'white',
+                background: 'linear-gradient(135deg, #274549 0%, #1a3033 100%)',
+                boxShadow: '0 4px 20px rgba(0,0,0,0.1)'
+            }}>
+                <Fade key={slide?.id ?? 'welcome'} in timeout={800}>
+                    <Box sx={{ position: 'absolute', inset: 0 }}>
+                        <Box sx={{
+                            position: 'absolute',
+                            inset: 0,
+                            // Quoted so a backend URL with quotes, parentheses or spaces stays one CSS string
+                            backgroundImage: `url(${JSON.stringify(slide?.imageUrl || '/images/TheGrandHoTram.png')})`,
+                            backgroundSize: slide?.imageUrl ? 'cover' : 'contain',
+                            backgroundRepeat: 'no-repeat',
+                            backgroundPosition: 'center',
+                            opacity: slide?.imageUrl ? 1 : 0.1
+                        }} />
+                        <Box sx={{
+                            position: 'absolute',
+                            inset: 0,
+                            display: 'flex',
+                            flexDirection: 'column',
+                            alignItems: 'center',
+                            justifyContent: 'flex-end',
+                            textAlign: 'center',
+                            px: 3,
+                            pb: { xs: 5, md: 8 },
+                            background: slide?.imageUrl
+                                ? 'linear-gradient(to top, rgba(0,0,0,0.65) 0%, rgba(0,0,0,0) 60%)'
+                                : 'none'
+                        }}>
+                            {!slide && (
+                                <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                                    {[0, 1, 2, 3, 4].map(star => (
+                                        <Stars key={star} sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
+                                    ))}
+                                </Box>
+                            )}
+                            <Typography
+                                variant="h2"
+                                sx={{
+                                    fontWeight: 700,
+                                    fontSize: { xs: '2rem', md: '2.5rem' },
+                                    mb: 2,
+                                    textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
+                                    letterSpacing: '0.5px'
+                                }}
+                            >
+                                {slide ? slide.title : t("WelcomeToTheGrandHoTram")}
+                            </Typography>
+                            <Typography
+                                variant="h5"
+                                sx={{ fontWeight: 300, maxWidth: 800, opacity: 0.95, lineHeight: 1.6 }}
+                            >
+                                {slide ? slide.message : t("SignatureConfirmationSystem")}
+                            </Typography>
+                        </Box>
+                    </Box>
+                </Fade>
+            </Box>
+
+            {/* Screen saver; it absorbs the touch that wakes it so nothing underneath is pressed */}
+            <Box
+                sx={{
+                    position: 'fixed',
+                    inset: 0,
+                    zIndex: (theme) => theme.zIndex.modal - 1,
+                    bgcolor: 'black',
+                    opacity: isDimmed ? settings.dimOpacity : 0,
+                    pointerEvents: isDimmed ? 'auto' : 'none',
+                    transition: 'opacity 2s ease'
+                }}
+            />
+        </>
+    );
+};
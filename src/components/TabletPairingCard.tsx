@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Card,
+    CardContent,
+    CircularProgress,
+    Stack,
+    Typography
+} from '@mui/material';
+import { CheckCircle, QrCode2 } from '@mui/icons-material';
+import { QRCodeSVG } from 'qrcode.react';
+import { useDevicePairing } from '../hooks/useDevicePairing';
+import { buildPairingUrl } from '../utils/pairing';
+
+const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Shows this tablet's pairing QR code and numeric code for a staff device to claim
+ */
+export const TabletPairingCard: React.FC = () => {
+    const {
+        session,
+        secondsLeft,
+        pairedMapping,
+        isStarting,
+        error,
+        startPairing,
+        cancelPairing
+    } = useDevicePairing();
+
+    return (
+        <Card elevation={2} sx={{ mb: 3 }}>
+            <CardContent>
+                <Typography variant="h6" gutterBottom>
+                    Pair With Staff Device
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Scan the QR code from the staff device, or type the code shown below.
+                </Typography>
+
+                {pairedMapping && (
+                    <Alert icon={<CheckCircle />} severity="success" sx={{ mb: 2 }}>
+                        Paired with <strong>{pairedMapping.staffDevice?.deviceName ?? 'staff device'}</strong>
+                        {pairedMapping.location && ` (${pairedMapping.location})`}
+                    </Alert>
+                )}
+
+                {error && (
+                    <Alert severity="error" sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {session ? (
+                    <Stack alignItems="center" spacing={2}>
+                        <Box sx={{ p: 2, bgcolor: 'white', borderRadius: 2, border: '1px solid #e0e0e0' }}>
+                            <QRCodeSVG value={buildPairingUrl(session.code)} size={200} />
+                        </Box>
+                        <Typography variant="h4" sx={{ fontFamily: 'monospace', letterSpacing: 8 }}>
+                            {session.code}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                            {isStarting ? 'Renewing code...' : `Expires in ${formatCountdown(secondsLeft)}`}
+                        </Typography>
+                        <Button variant="outlined" onClick={cancelPairing}>
+                            Cancel
+                        </Button>
+                    </Stack>
+                ) : (
+                    <Button
+                        variant="contained"
+                        startIcon={isStarting ? <CircularProgress size={16} /> : <QrCode2 />}
+                        onClick={startPairing}
+                        disabled={isStarting}
+                    >
+                        {pairedMapping ? 'Pair Again' : 'Show Pairing Code'}
+                    </Button>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,55 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import deviceAuth, { type DeviceAuthState } from '../services/deviceAuth';
+import { deviceManager } from '../services/deviceManager';
+import signalRService from '../services/signalRService';
+import type { DeviceRevocation } from '../type';
+import { DeviceAuthContext } from './useDeviceAuthContext';
+
+/**
+ * Device Authentication Provider
+ * Loads the stored device token and tears the device session down when the server revokes it
+ */
+export const DeviceAuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [state, setState] = useState<DeviceAuthState>(deviceAuth.getState());
+    const wasAuthenticated = useRef(false);
+
+    useEffect(() => {
+        const unsubscribe = deviceAuth.subscribe(setState);
+        deviceAuth.load().then(setState);
+        return unsubscribe;
+    }, []);
+
+    // Server-pushed revocation over the hub
+    useEffect(() => {
+        if (state.status !== 'authenticated') return;
+
+        const handleRevoked = (revocation: DeviceRevocation) => {
+            deviceAuth.revoke(revocation.reason);
+        };
+
+        signalRService.onDeviceRevoked(handleRevoked);
+        return () => {
+            signalRService.off('DeviceRevoked', handleRevoked);
+        };
+    }, [state.status]);
+
+    // Stop the heartbeat and hub connection of a device that lost its token
+    useEffect(() => {
+        if (state.status === 'authenticated') {
+            wasAuthenticated.current = true;
+        } else if (state.status === 'unprovisioned' && wasAuthenticated.current) {
+            wasAuthenticated.current = false;
+            deviceManager.cleanup();
+            signalRService.stop();
+        }
+    }, [state.status]);
+
+    const provision = useCallback((provisioningCode: string) => deviceAuth.provision(provisioningCode), []);
+
+    return (
+        <DeviceAuthContext.Provider value={{ ...state, provision }}>
+            {children}
+        </DeviceAuthContext.Provider>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { signatureApiService } from '../services/signatureApiService';
+import { getDeviceIdentity } from '../utils/deviceIdentity';
+import { resolveKioskSettings, setKioskEnabledOverride, type KioskSettings } from '../utils/kioskSettings';
+import { KioskContext, type KioskContextType } from './useKioskContext';
+
+// The viewport the app ships with in index.html
+const DEFAULT_VIEWPORT = 'width=device-width, initial-scale=1.0';
+const LOCKED_VIEWPORT = 'width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no';
+
+const ZOOM_KEYS = ['+', '-', '=', '0'];
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+const isEditable = (target: EventTarget | null): boolean =>
+    target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+/**
+ * Block context menus, text selection, image dragging and pinch or keyboard zoom.
+ * Returns a function that undoes it.
+ */
+const applyLockdown = (): (() => void) => {
+    const preventDefault = (event: Event) => event.preventDefault();
+    const preventSelection = (event: Event) => {
+        if (!isEditable(event.target)) event.preventDefault();
+    };
+    const preventPinch = (event: TouchEvent) => {
+        if (event.touches.length > 1) event.preventDefault();
+    };
+    const preventWheelZoom = (event: WheelEvent) => {
+        if (event.ctrlKey) event.preventDefault();
+    };
+    const preventKeyZoom = (event: KeyboardEvent) => {
+        if ((event.ctrlKey || event.metaKey) && ZOOM_KEYS.includes(event.key)) event.preventDefault();
+    };
+
+    document.addEventListener('contextmenu', preventDefault);
+    document.addEventListener('selectstart', preventSelection);
+    document.addEventListener('dragstart', preventDefault);
+    // Safari only; other browsers are covered by the multi-touch check
+    document.addEventListener('gesturestart', preventDefault);
+    document.addEventListener('touchmove', preventPinch, { passive: false });
+    document.addEventListener('wheel', preventWheelZoom, { passive: false });
+    document.addEventListener('keydown', preventKeyZoom);
+    document.body.classList.add('kiosk-mode');
+
+    const viewport = document.querySelector<HTMLMetaElement>('meta[name="viewport"]');
+    viewport?.setAttribute('content', LOCKED_VIEWPORT);
+
+    return () => {
+        document.removeEventListener('contextmenu', preventDefault);
+        document.removeEventListener('selectstart', preventSelection);
+        document.removeEventListener('dragstart', preventDefault);
+        document.removeEventListener('gesturestart', preventDefault);
+        document.removeEventListener('touchmove', preventPinch);
+        document.removeEventListener('wheel', preventWheelZoom);
+        document.removeEventListener('keydown', preventKeyZoom);
+        document.body.classList.remove('kiosk-mode');
+        viewport?.setAttribute('content', DEFAULT_VIEWPORT);
+    };
+};
+
+interface KioskProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * Kiosk lockdown for the patron tablet
+ * Must sit inside the Router: it traps the browser back button and returns to the signing screen
+ * after the idle timeout. Admin routes are gated separately by KioskRoute.
+ */
+export const KioskProvider: React.FC<KioskProviderProps> = ({ children }) => {
+    const [settings, setSettings] = useState<KioskSettings>(resolveKioskSettings);
+    // Session only: a reload always starts locked
+    const [isUnlocked, setIsUnlocked] = useState(false);
+    const [isIdle, setIsIdle] = useState(false);
+    const navigate = useNavigate();
+    const location = useLocation();
+    // Restarts the idle timer; replaced while kiosk mode is on
+    const activityRef = useRef<() => void>(() => undefined);
+
+    // The history entry the router is showing, restored when the back button pops it
+    const currentEntryRef = useRef({ url: window.location.href, state: window.history.state });
+    useEffect(() => {
+        currentEntryRef.current = { url: window.location.href, state: window.history.state };
+    }, [location]);
+
+    const lockAdmin = useCallback(() => {
+        setIsUnlocked(false);
+    }, []);
+
+    const unlockAdmin = useCallback(async (pin: string) => {
+        const { deviceId } = await getDeviceIdentity();
+        const { valid } = await signatureApiService.verifyStaffPin({ DeviceId: deviceId, Pin: pin });
+        if (valid) {
+            console.log('🔓 Admin routes unlocked');
+            setIsUnlocked(true);
+        } else {
+            console.warn('🚫 Incorrect staff PIN');
+        }
+        return valid;
+    }, []);
+
+    const markActivity = useCallback(() => {
+        activityRef.current();
+    }, []);
+
+    const setKioskEnabled = useCallback((enabled: boolean) => {
+        setKioskEnabledOverride(enabled);
+        setSettings(resolveKioskSettings());
+        // Whoever switched it on is on an admin page and stays there until the tablet goes idle
+        setIsUnlocked(true);
+        console.log(enabled ? '🔒 Kiosk mode enabled' : '🔓 Kiosk mode disabled');
+    }, []);
+
+    useEffect(() => {
+        if (!settings.enabled) return;
+        return applyLockdown();
+    }, [settings.enabled]);
+
+    // An unlock only lasts so long, even on a tablet that never goes idle
+    useEffect(() => {
+        if (!settings.enabled || !isUnlocked) return;
+        const timer = setTimeout(() => {
+            console.log('🔒 Admin unlock expired');
+            setIsUnlocked(false);
+        }, settings.adminUnlockMinutes * 60 * 1000);
+        return () => clearTimeout(timer);
+    }, [settings.enabled, settings.adminUnlockMinutes, isUnlocked]);
+
+    // Back button: the router never sees the pop; the entry it was showing is pushed again
+    useEffect(() => {
+        if (!settings.enabled) return;
+
+        // Keep an in-app entry behind the current one so back cannot leave the app
+        window.history.pushState(window.history.state, '', window.location.href);
+
+        const handlePopState = (event: PopStateEvent) => {
+            event.stopImmediatePropagation();
+            const { url, state } = currentEntryRef.current;
+            window.history.pushState(state, '', url);
+        };
+
+        // Capture so this runs before the router's own popstate listener
+        window.addEventListener('popstate', handlePopState, { capture: true });
+        return () => window.removeEventListener('popstate', handlePopState, { capture: true });
+    }, [settings.enabled]);
+
+    // Inactivity: back to the signing screen with admin routes locked again.
+    // SignatureConfirmation watches isIdle to drop a session the patron walked away from.
+    useEffect(() => {
+        if (!settings.enabled) return;
+
+        let timer: ReturnType<typeof setTimeout>;
+        const goIdle = () => {
+            console.log('💤 Tablet idle, returning to the signing screen');
+            setIsIdle(true);
+            setIsUnlocked(false);
+            if (window.location.pathname !== '/') {
+                navigate('/', { replace: true });
+            }
+        };
+        const handleActivity = () => {
+            setIsIdle(false);
+            clearTimeout(timer);
+            timer = setTimeout(goIdle, settings.idleTimeoutSeconds * 1000);
+        };
+
+        handleActivity();
+        activityRef.current = handleActivity;
+        ACTIVITY_EVENTS.forEach(type => document.addEventListener(type, handleActivity, { passive: true }));
+        return () => {
+            clearTimeout(timer);
+            activityRef.current = () => undefined;
+            ACTIVITY_EVENTS.forEach(type => document.removeEventListener(type, handleActivity));
+        };
+    }, [settings.enabled, settings.idleTimeoutSeconds, navigate]);
+
+    const value: KioskContextType = {
+        settings,
+        isAdminUnlocked: !settings.enabled || isUnlocked,
+        isIdle,
+        markActivity,
+        unlockAdmin,
+        lockAdmin,
+        setKioskEnabled
+    };
+
+    return (
+        <KioskContext.Provider value={value}>
+            {children}
+        </KioskContext.Provider>
+    );
+};
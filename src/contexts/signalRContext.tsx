@@ -1,5 +1,6 @@
 import React, { createContext, useContext, type ReactNode } from 'react';
 import { useSignalR, type UseSignalROptions } from '../hooks/useSignalR';
+import type { IncomeData, PatronData } from '../type';
 
 interface SignalRContextType {
     isConnected: boolean;
@@ -7,8 +8,8 @@ interface SignalRContextType {
     error: Error | null;
     connect: () => Promise<void>;
     disconnect: () => Promise<void>;
-    validatePatron: (patronData: any) => Promise<void>;
-    validateIncome: (patronId: number, incomeData: any) => Promise<void>;
+    validatePatron: (patronData: PatronData) => Promise<void>;
+    validateIncome: (patronId: number, incomeData: IncomeData) => Promise<void>;
     getPatronStatus: (patronId: number) => Promise<void>;
 }
 
@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import type { DeviceAuthState } from '../services/deviceAuth';
+
+export interface DeviceAuthContextType extends DeviceAuthState {
+    provision: (provisioningCode: string) => Promise<void>;
+}
+
+// Provided by DeviceAuthProvider; kept out of its module so fast refresh can reload the provider
+export const DeviceAuthContext = createContext<DeviceAuthContextType | undefined>(undefined);
+
+export const useDeviceAuthContext = (): DeviceAuthContextType => {
+    const context = useContext(DeviceAuthContext);
+    if (!context) {
+        throw new Error('useDeviceAuthContext must be used within a DeviceAuthProvider');
+    }
+    return context;
+};
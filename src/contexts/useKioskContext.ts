@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import type { KioskSettings } from '../utils/kioskSettings';
+
+export interface KioskContextType {
+    settings: KioskSettings;
+    // True when kiosk mode is off, or staff entered the PIN since the tablet last went idle
+    isAdminUnlocked: boolean;
+    // No touch, key press or signature request for the configured idle timeout
+    isIdle: boolean;
+    // Restart the idle timeout without a touch, e.g. when a signature request arrives
+    markActivity: () => void;
+    // Resolves false for a wrong PIN; network and server failures throw
+    unlockAdmin: (pin: string) => Promise<boolean>;
+    lockAdmin: () => void;
+    setKioskEnabled: (enabled: boolean) => void;
+}
+
+// Provided by KioskProvider; kept out of its module so fast refresh can reload the provider
+export const KioskContext = createContext<KioskContextType | undefined>(undefined);
+
+/**
+ * Hook to access the kiosk lockdown state
+ */
+export const useKioskContext = (): KioskContextType => {
+    const context = useContext(KioskContext);
+    if (!context) {
+        throw new Error('useKioskContext must be used within a KioskProvider');
+    }
+    return context;
+};
@@ -3,7 +3,7 @@ import { deviceManager, type DeviceRegistrationResult, type HeartbeatOptions } f
 import { useSignalR } from './useSignalR';
 import signalRService from '../services/signalRService';
 import type { DeviceInfo } from '../utils/deviceInfo';
-import type { RegisterDeviceResponse } from '../type';
+import type { DeviceHealthSnapshot, DeviceHeartbeatReply, RegisterDeviceResponse } from '../type';
 
 export interface UseDeviceManagerOptions {
     autoRegister?: boolean;
@@ -31,6 +31,10 @@ export interface DeviceManagerState {
     // Heartbeat state
     isHeartbeatActive: boolean;
     lastHeartbeat?: Date;
+    // Server's view of this device from the latest heartbeat reply
+    lastHeartbeatReply?: DeviceHeartbeatReply;
+    // Health snapshot sent with the latest acknowledged heartbeat
+    lastHealthSnapshot?: DeviceHealthSnapshot;
     
     // Overall state
     isReady: boolean;
@@ -226,6 +230,14 @@ export const useDeviceManager = (options: UseDeviceManagerOptions = {}) => {
 
         const heartbeatOptions: HeartbeatOptions = {
             interval: heartbeatInterval,
+            onHeartbeat: (reply, health) => {
+                setState(prev => ({
+                    ...prev,
+                    lastHeartbeat: new Date(),
+                    lastHeartbeatReply: reply,
+                    lastHealthSnapshot: health
+                }));
+            },
             onHeartbeatFailed: (error) => {
                 setState(prev => ({ 
                     ...prev, 
@@ -248,8 +260,7 @@ export const useDeviceManager = (options: UseDeviceManagerOptions = {}) => {
             ...prev,
             isHeartbeatActive: true,
             currentStep: 'ready',
-            isReady: true,
-            lastHeartbeat: new Date()
+            isReady: true
         }));
 
         onReady?.();
@@ -309,20 +320,6 @@ export const useDeviceManager = (options: UseDeviceManagerOptions = {}) => {
         }
     }, [autoRegister, registerDevice, state.isRegistering]);
 
-    // Update heartbeat timestamp
-    useEffect(() => {
-        if (state.isHeartbeatActive) {
-            const interval = setInterval(() => {
-                setState(prev => ({ 
-                    ...prev, 
-                    lastHeartbeat: new Date() 
-                }));
-            }, heartbeatInterval);
-
-            return () => clearInterval(interval);
-        }
-    }, [state.isHeartbeatActive, heartbeatInterval]);
-
     return {
         // State
         ...state,
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { signatureApiService } from '../services/signatureApiService';
+import signalRService from '../services/signalRService';
+import { setPairedStaffDeviceId } from '../utils/deviceInfo';
+import type { DeviceMappingResponse, PairingSession } from '../type';
+
+/**
+ * Tablet side of QR pairing: opens a short-lived pairing session, renews it when it expires
+ * and completes once a staff device claims the code (pushed over the hub).
+ */
+export const useDevicePairing = () => {
+    const [session, setSession] = useState<PairingSession | null>(null);
+    const [secondsLeft, setSecondsLeft] = useState(0);
+    const [pairedMapping, setPairedMapping] = useState<DeviceMappingResponse | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const sessionRef = useRef<PairingSession | null>(null);
+
+    const updateSession = useCallback((next: PairingSession | null) => {
+        sessionRef.current = next;
+        setSession(next);
+    }, []);
+
+    const startPairing = useCallback(async () => {
+        setIsStarting(true);
+        setError(null);
+        setPairedMapping(null);
+        try {
+            const next = await signatureApiService.startPairing();
+            console.log('🔗 Pairing session started, expires', next.expiresAt);
+            updateSession(next);
+        } catch (error) {
+            console.error('❌ Failed to start pairing:', error);
+            updateSession(null);
+            setError(error instanceof Error ? error.message : 'Failed to start pairing');
+        } finally {
+            setIsStarting(false);
+        }
+    }, [updateSession]);
+
+    const cancelPairing = useCallback(() => {
+        updateSession(null);
+    }, [updateSession]);
+
+    // Countdown, renewing the code once it lapses so the QR shown is never stale
+    useEffect(() => {
+        if (!session) return;
+
+        const tick = () => {
+            const remaining = Math.max(0, Math.ceil((Date.parse(session.expiresAt) - Date.now()) / 1000));
+            setSecondsLeft(remaining);
+            if (remaining === 0) {
+                clearInterval(timer);
+                console.log('⏰ Pairing code expired, renewing');
+                startPairing();
+            }
+        };
+
+        const timer = setInterval(tick, 1000);
+        tick();
+        return () => clearInterval(timer);
+    }, [session, startPairing]);
+
+    useEffect(() => {
+        const handlePaired = (mapping: DeviceMappingResponse) => {
+            // Ignore pairings this tablet did not ask for
+            if (!sessionRef.current) return;
+
+            console.log('✅ Paired with staff device:', mapping.staffDevice?.deviceName);
+            if (mapping.staffDevice) {
+                setPairedStaffDeviceId(String(mapping.staffDevice.id));
+            }
+            updateSession(null);
+            setPairedMapping(mapping);
+        };
+
+        signalRService.onDevicePaired(handlePaired);
+        return () => {
+            signalRService.off('DevicePaired', handlePaired);
+        };
+    }, [updateSession]);
+
+    return {
+        session,
+        secondsLeft,
+        pairedMapping,
+        isStarting,
+        error,
+        startPairing,
+        cancelPairing
+    };
+};
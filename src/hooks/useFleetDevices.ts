@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { signatureApiService } from '../services/signatureApiService';
+import signalRService from '../services/signalRService';
+import type { DeviceMappingResponse, DeviceStatusChange, GetOnlineDevicesResponse } from '../type';
+
+export type FleetStatus = 'online' | 'offline' | 'available' | 'busy';
+
+export interface FleetStatusEvent {
+    status: FleetStatus;
+    at: string;
+}
+
+export interface FleetDevice {
+    device: GetOnlineDevicesResponse;
+    mapping?: DeviceMappingResponse;
+    // Most recent transitions first
+    timeline: FleetStatusEvent[];
+}
+
+const MAX_TIMELINE_EVENTS = 20;
+// Status changes from tablets not in the list are coalesced into one reload per window,
+// so a fleet of heartbeating newcomers cannot flood the server with refreshes
+const UNKNOWN_DEVICE_REFRESH_DELAY_MS = 10 * 1000;
+
+// Transitions between two known states, so the timeline only records changes
+const statusTransitions = (
+    previous: Pick<GetOnlineDevicesResponse, 'isOnline' | 'isAvailable'> | undefined,
+    next: Pick<GetOnlineDevicesResponse, 'isOnline' | 'isAvailable'>,
+    at: string
+): FleetStatusEvent[] => {
+    const events: FleetStatusEvent[] = [];
+    if (!previous || previous.isOnline !== next.isOnline) {
+        events.push({ status: next.isOnline ? 'online' : 'offline', at });
+    }
+    if (next.isOnline && (!previous || previous.isAvailable !== next.isAvailable)) {
+        events.push({ status: next.isAvailable ? 'available' : 'busy', at });
+    }
+    return events;
+};
+
+const withEvents = (timeline: FleetStatusEvent[], events: FleetStatusEvent[]) =>
+    events.length === 0 ? timeline : [...events.reverse(), ...timeline].slice(0, MAX_TIMELINE_EVENTS);
+
+/**
+ * Live view of every patron tablet: loaded from online-devices and per-device mappings,
+ * then kept current by the hub's fleet monitor events.
+ */
+export const useFleetDevices = () => {
+    const [devices, setDevices] = useState<Record<string, FleetDevice>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+    const devicesRef = useRef(devices);
+    devicesRef.current = devices;
+
+    const loadMappings = useCallback(async (deviceIds: string[]) => {
+        const results = await Promise.allSettled(
+            deviceIds.map(id => signatureApiService.getPatronDeviceInformation(id))
+        );
+
+        setDevices(prev => {
+            const next = { ...prev };
+            results.forEach((result, index) => {
+                const entry = next[deviceIds[index]];
+                if (result.status === 'fulfilled' && entry) {
+                    next[deviceIds[index]] = { ...entry, mapping: result.value };
+                }
+            });
+            return next;
+        });
+    }, []);
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const online = await signatureApiService.getOnlineDevices();
+            const now = new Date().toISOString();
+
+            setDevices(prev => {
+                const next: Record<string, FleetDevice> = {};
+                online.forEach(device => {
+                    const existing = prev[device.id];
+                    next[device.id] = {
+                        device,
+                        mapping: existing?.mapping,
+                        timeline: withEvents(existing?.timeline ?? [], statusTransitions(existing?.device, device, now))
+                    };
+                });
+                return next;
+            });
+            setLastUpdated(new Date());
+
+            // Mappings change rarely (DeviceMappingChanged keeps them current), so only fetch missing ones
+            const unmapped = online.filter(device => !devicesRef.current[device.id]?.mapping).map(device => device.id);
+            if (unmapped.length > 0) {
+                await loadMappings(unmapped);
+            }
+        } catch (err) {
+            console.error('❌ Failed to load fleet devices:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load devices');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [loadMappings]);
+
+    useEffect(() => {
+        let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+        const scheduleRefresh = () => {
+            if (refreshTimer) return;
+            refreshTimer = setTimeout(() => {
+                refreshTimer = undefined;
+                refresh();
+            }, UNKNOWN_DEVICE_REFRESH_DELAY_MS);
+        };
+
+        const handleStatusChanged = (change: DeviceStatusChange) => {
+            const existing = devicesRef.current[change.deviceId];
+            if (!existing) {
+                // A tablet we have not seen yet; reload soon to pick up its full record
+                scheduleRefresh();
+                return;
+            }
+
+            setDevices(prev => {
+                const entry = prev[change.deviceId];
+                if (!entry) return prev;
+
+                const device: GetOnlineDevicesResponse = {
+                    ...entry.device,
+                    isOnline: change.isOnline,
+                    isAvailable: change.isAvailable,
+                    lastHeartbeat: change.lastHeartbeat ?? entry.device.lastHeartbeat,
+                    health: change.health ?? entry.device.health
+                };
+                return {
+                    ...prev,
+                    [change.deviceId]: {
+                        ...entry,
+                        device,
+                        timeline: withEvents(entry.timeline, statusTransitions(entry.device, device, change.changedAt))
+                    }
+                };
+            });
+            setLastUpdated(new Date());
+        };
+
+        const handleMappingChanged = (mapping: DeviceMappingResponse) => {
+            if (!mapping.patronDevice) return;
+            const deviceId = String(mapping.patronDevice.id);
+            setDevices(prev => prev[deviceId]
+                ? { ...prev, [deviceId]: { ...prev[deviceId], mapping } }
+                : prev);
+        };
+
+        // Group membership is lost with the connection, so rejoin and resync on every connect
+        const joinAndRefresh = () => {
+            signalRService.joinFleetMonitor()
+                .catch(err => console.error('❌ Failed to join fleet monitor:', err));
+            refresh();
+        };
+
+        signalRService.onDeviceStatusChanged(handleStatusChanged);
+        signalRService.onDeviceMappingChanged(handleMappingChanged);
+        const unsubscribeConnected = signalRService.onConnected(joinAndRefresh);
+
+        if (signalRService.isConnected()) {
+            joinAndRefresh();
+        } else {
+            refresh();
+        }
+
+        return () => {
+            clearTimeout(refreshTimer);
+            signalRService.off('DeviceStatusChanged', handleStatusChanged);
+            signalRService.off('DeviceMappingChanged', handleMappingChanged);
+            unsubscribeConnected();
+            if (signalRService.isConnected()) {
+                signalRService.leaveFleetMonitor().catch(() => undefined);
+            }
+        };
+    }, [refresh]);
+
+    return {
+        devices: Object.values(devices),
+        isLoading,
+        error,
+        lastUpdated,
+        refresh
+    };
+};
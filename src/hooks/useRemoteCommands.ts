@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import i18n from '../i18n';
+import { useDeviceManagerContext } from '../contexts/deviceManagerContext';
+import remoteCommands, { type RemoteCommandExecutors } from '../services/remoteCommands';
+import { signatureApiService } from '../services/signatureApiService';
+import signalRService from '../services/signalRService';
+import { CacheBuster } from '../utils/cacheBuster';
+import { collectDiagnostics } from '../utils/diagnostics';
+import type { RemoteCommand } from '../type';
+
+export interface MaintenanceState {
+    message?: string;
+    since: string;
+}
+
+const MAINTENANCE_STORAGE_KEY = 'maintenance_mode';
+
+const loadMaintenance = (): MaintenanceState | null => {
+    try {
+        const stored = localStorage.getItem(MAINTENANCE_STORAGE_KEY);
+        return stored ? JSON.parse(stored) as MaintenanceState : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Hook executing remote commands sent to this tablet over the hub.
+ * Returns the maintenance screen state, which persists across reloads until ended remotely.
+ */
+export const useRemoteCommands = () => {
+    const { retry } = useDeviceManagerContext();
+    const [maintenance, setMaintenance] = useState<MaintenanceState | null>(loadMaintenance);
+
+    const updateMaintenance = useCallback((next: MaintenanceState | null) => {
+        if (next) {
+            localStorage.setItem(MAINTENANCE_STORAGE_KEY, JSON.stringify(next));
+        } else {
+            localStorage.removeItem(MAINTENANCE_STORAGE_KEY);
+        }
+        setMaintenance(next);
+    }, []);
+
+    const executors: RemoteCommandExecutors = {
+        'reload': async () => ({
+            message: 'Reloading',
+            afterAck: () => CacheBuster.forceReload()
+        }),
+        'clear-caches': async () => {
+            await CacheBuster.clearAllCaches();
+            return { message: 'Caches cleared, reloading', afterAck: () => CacheBuster.forceReload() };
+        },
+        're-register': async () => {
+            const result = await retry();
+            if (!result?.success) {
+                throw new Error(result?.error || 'Re-registration failed');
+            }
+            return { message: 'Device re-registered' };
+        },
+        'set-language': async (command) => {
+            const languages = Object.keys(i18n.options.resources ?? {});
+            if (!command.language || !languages.includes(command.language)) {
+                throw new Error(`Unsupported language '${command.language ?? ''}'; expected one of ${languages.join(', ')}`);
+            }
+            // Persisted as the default by the i18n languageChanged handler
+            await i18n.changeLanguage(command.language);
+            return { message: `Language set to ${command.language}` };
+        },
+        'show-maintenance': async (command) => {
+            updateMaintenance({ message: command.message, since: new Date().toISOString() });
+            return { message: 'Maintenance screen shown' };
+        },
+        'end-maintenance': async () => {
+            updateMaintenance(null);
+            return { message: 'Maintenance screen hidden' };
+        },
+        'upload-diagnostics': async (command) => {
+            const report = await collectDiagnostics(command.commandId);
+            await signatureApiService.uploadDiagnostics(report);
+            return { message: 'Diagnostics uploaded' };
+        }
+    };
+
+    // Latest executors without resubscribing to the hub on every render
+    const executorsRef = useRef(executors);
+    executorsRef.current = executors;
+
+    useEffect(() => {
+        const handleCommand = (command: RemoteCommand) => {
+            remoteCommands.handle(command, executorsRef.current).catch(error => {
+                console.error('❌ Remote command handling failed:', command.commandId, error);
+            });
+        };
+
+        signalRService.onRemoteCommand(handleCommand);
+        return () => {
+            signalRService.off('ExecuteRemoteCommand', handleCommand);
+        };
+    }, []);
+
+    return { maintenance };
+};
@@ -1,11 +1,13 @@
 import { useEffect, useCallback, useState } from 'react';
-import signalRService, { type PatronUpdateMessage, type ValidationResult } from '../services/signalRService';
+import signalRService from '../services/signalRService';
+import type { IncomeData, PatronData, PatronUpdateMessage, SigningProgressEvent, ValidationResult } from '../type';
 
 export interface UseSignalROptions {
     autoConnect?: boolean;
     onPatronUpdate?: (message: PatronUpdateMessage) => void;
     onValidationResult?: (result: ValidationResult) => void;
     onIncomeValidation?: (patronId: number, isValid: boolean, message: string) => void;
+    onSigningProgress?: (event: SigningProgressEvent) => void;
 }
 
 export const useSignalR = (options: UseSignalROptions = {}) => {
@@ -13,7 +15,8 @@ export const useSignalR = (options: UseSignalROptions = {}) => {
         autoConnect = true,
         onPatronUpdate,
         onValidationResult,
-        onIncomeValidation
+        onIncomeValidation,
+        onSigningProgress
     } = options;
 
     const [isConnected, setIsConnected] = useState(false);
@@ -63,7 +66,7 @@ export const useSignalR = (options: UseSignalROptions = {}) => {
     }, []);
 
     // Validate patron data
-    const validatePatron = useCallback(async (patronData: any) => {
+    const validatePatron = useCallback(async (patronData: PatronData) => {
         try {
             await signalRService.validatePatron(patronData);
         } catch (err) {
@@ -73,7 +76,7 @@ export const useSignalR = (options: UseSignalROptions = {}) => {
     }, []);
 
     // Validate income
-    const validateIncome = useCallback(async (patronId: number, incomeData: any) => {
+    const validateIncome = useCallback(async (patronId: number, incomeData: IncomeData) => {
         try {
             await signalRService.validateIncome(patronId, incomeData);
         } catch (err) {
@@ -111,19 +114,26 @@ export const useSignalR = (options: UseSignalROptions = {}) => {
             signalRService.onIncomeValidation(onIncomeValidation);
         }
 
+        if (onSigningProgress) {
+            signalRService.onSigningProgress(onSigningProgress);
+        }
+
         // Cleanup
         return () => {
             if (onPatronUpdate) {
-                signalRService.off('ReceivePatronUpdate');
+                signalRService.off('ReceivePatronUpdate', onPatronUpdate);
             }
             if (onValidationResult) {
-                signalRService.off('ReceiveValidationResult');
+                signalRService.off('ReceiveValidationResult', onValidationResult);
             }
             if (onIncomeValidation) {
-                signalRService.off('ReceiveIncomeValidation');
+                signalRService.off('ReceiveIncomeValidation', onIncomeValidation);
+            }
+            if (onSigningProgress) {
+                signalRService.off('ReceiveSigningProgress', onSigningProgress);
             }
         };
-    }, [autoConnect, connect, onPatronUpdate, onValidationResult, onIncomeValidation]);
+    }, [autoConnect, connect, onPatronUpdate, onValidationResult, onIncomeValidation, onSigningProgress]);
 
     return {
         isConnected,
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import signatureOutbox, { type OutboxEntry } from '../services/signatureOutbox';
+
+/**
+ * Hook exposing the signature outbox and retrying it while the network is connected.
+ * Pass the connectivity reported by useNetworkStatus.
+ */
+export const useSignatureOutbox = (isConnected: boolean) => {
+    const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+    useEffect(() => {
+        const unsubscribe = signatureOutbox.subscribe(setEntries);
+        signatureOutbox.getEntries().then(setEntries);
+        return unsubscribe;
+    }, []);
+
+    const pendingEntries = useMemo(() => entries.filter(entry => !entry.failed), [entries]);
+
+    // Retry as soon as connectivity returns, then whenever the earliest backoff elapses
+    useEffect(() => {
+        if (!isConnected || pendingEntries.length === 0) return;
+
+        const nextAttemptAt = Math.min(...pendingEntries.map(entry => entry.nextAttemptAt));
+        const timer = setTimeout(() => {
+            console.log('📤 Flushing signature outbox:', pendingEntries.length, 'pending');
+            signatureOutbox.flush().catch(error => {
+                console.error('❌ Signature outbox flush failed:', error);
+            });
+        }, Math.max(0, nextAttemptAt - Date.now()));
+
+        return () => clearTimeout(timer);
+    }, [isConnected, pendingEntries]);
+
+    const flush = useCallback(() => signatureOutbox.flush(), []);
+
+    return {
+        entries,
+        pendingCount: pendingEntries.length,
+        failedCount: entries.length - pendingEntries.length,
+        flush
+    };
+};
@@ -1,18 +1,38 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import signalRService from '../services/signalRService';
-import type { SignatureMessageData } from '../type';
+import signatureAcks, { type SignatureAckState } from '../services/signatureAcks';
+import type {
+    SignatureAckStatus,
+    SignatureMessageData,
+    SignatureRequestCancellation,
+    SignatureRequestReplacement
+} from '../type';
+
+export type { SignatureAckState };
+
+// How a request left the tablet; absent while it is still open
+export type SignatureRequestOutcome = 'completed' | 'withdrawn' | 'replaced';
+
+export type SignatureRequestHistoryEntry = SignatureMessageData & {
+    outcome?: SignatureRequestOutcome;
+    outcomeReason?: string;
+};
 
 export interface SignatureRequestState {
     currentRequest: SignatureMessageData | null;
     isDialogOpen: boolean;
-    requestHistory: SignatureMessageData[];
+    requestHistory: SignatureRequestHistoryEntry[];
     totalRequests: number;
+    // Keyed by requestId
+    acks: Record<string, SignatureAckState>;
 }
 
 export interface UseSignatureRequestOptions {
     onSignatureRequest?: (data: SignatureMessageData) => void;
     onSignatureSubmitted?: (requestId: string) => void;
     onSignatureError?: (error: string, requestId?: string) => void;
+    // Staff withdrew the request currently shown on the tablet
+    onSignatureWithdrawn?: (cancellation: SignatureRequestCancellation) => void;
     autoShowDialog?: boolean;
 }
 
@@ -25,6 +45,7 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
         onSignatureRequest,
         onSignatureSubmitted,
         onSignatureError,
+        onSignatureWithdrawn,
         autoShowDialog = true
     } = options;
 
@@ -32,9 +53,23 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
         currentRequest: null,
         isDialogOpen: false,
         requestHistory: [],
-        totalRequests: 0
+        totalRequests: 0,
+        acks: signatureAcks.getAcks()
     });
 
+    // Hub handlers compare against the latest request without re-subscribing on every change
+    const currentRequestRef = useRef<SignatureMessageData | null>(null);
+    currentRequestRef.current = state.currentRequest;
+
+    // Acks are shared by every screen handling requests, so each status reaches staff once
+    const acknowledgeRequest = useCallback((request: SignatureMessageData, status: SignatureAckStatus) => {
+        signatureAcks.acknowledge(request, status);
+    }, []);
+
+    useEffect(() => {
+        return signatureAcks.subscribe(acks => setState(prev => ({ ...prev, acks })));
+    }, []);
+
     // Handle incoming signature requests from SignalR
     const handleSignatureRequest = useCallback((data: SignatureMessageData) => {
         console.log('📝 Received signature request:', data);
@@ -47,6 +82,8 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
             totalRequests: prev.totalRequests + 1
         }));
 
+        acknowledgeRequest(data, 'received');
+
         // Call custom handler if provided
         onSignatureRequest?.(data);
 
@@ -58,7 +95,38 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
             });
         }
 
-    }, [autoShowDialog, onSignatureRequest]);
+    }, [autoShowDialog, onSignatureRequest, acknowledgeRequest]);
+
+    // Record how a request ended in the history
+    const markOutcome = useCallback((requestId: string, outcome: SignatureRequestOutcome, reason?: string) => {
+        setState(prev => ({
+            ...prev,
+            requestHistory: prev.requestHistory.map(req =>
+                req.requestId === requestId ? { ...req, outcome, outcomeReason: reason } : req
+            )
+        }));
+    }, []);
+
+    // Handle staff withdrawing a request
+    const handleSignatureCancelled = useCallback((cancellation: SignatureRequestCancellation) => {
+        console.log('🛑 Signature request withdrawn by staff:', cancellation);
+
+        const isCurrent = currentRequestRef.current?.requestId === cancellation.requestId;
+        markOutcome(cancellation.requestId, 'withdrawn', cancellation.reason);
+
+        if (isCurrent) {
+            setState(prev => ({ ...prev, currentRequest: null, isDialogOpen: false }));
+            onSignatureWithdrawn?.(cancellation);
+        }
+    }, [markOutcome, onSignatureWithdrawn]);
+
+    // Handle staff replacing a request: the old one is closed out and the new one shown in its place
+    const handleSignatureReplaced = useCallback((replacement: SignatureRequestReplacement) => {
+        console.log('🔁 Signature request replaced by staff:', replacement.previousRequestId, '->', replacement.request.requestId);
+
+        markOutcome(replacement.previousRequestId, 'replaced', replacement.reason);
+        handleSignatureRequest(replacement.request);
+    }, [markOutcome, handleSignatureRequest]);
 
     // Open signature dialog manually
     const openSignatureDialog = useCallback((data?: SignatureMessageData) => {
@@ -102,7 +170,7 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
             ...prev,
             requestHistory: prev.requestHistory.map(req => 
                 req.requestId === requestId 
-                    ? { ...req, completed: true } as SignatureMessageData & { completed: boolean }
+                    ? { ...req, outcome: 'completed' as const }
                     : req
             ),
             currentRequest: null,
@@ -146,7 +214,7 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
     }, []);
 
     // Get request by ID
-    const getRequestById = useCallback((requestId: string): SignatureMessageData | undefined => {
+    const getRequestById = useCallback((requestId: string): SignatureRequestHistoryEntry | undefined => {
         return state.requestHistory.find(req => req.requestId === requestId);
     }, [state.requestHistory]);
 
@@ -160,17 +228,21 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
 
     // Setup SignalR event listener
     useEffect(() => {
-        // Subscribe to signature requests
+        // Subscribe to signature requests and staff withdrawing or replacing them
         signalRService.onSignatureRequest(handleSignatureRequest);
+        signalRService.onSignatureRequestCancelled(handleSignatureCancelled);
+        signalRService.onSignatureRequestReplaced(handleSignatureReplaced);
 
         // Request notification permission on first mount
         requestNotificationPermission();
 
         // Cleanup
         return () => {
-            signalRService.off('ShowSignatureRequest');
+            signalRService.off('ShowSignatureRequest', handleSignatureRequest);
+            signalRService.off('CancelSignatureRequest', handleSignatureCancelled);
+            signalRService.off('ReplaceSignatureRequest', handleSignatureReplaced);
         };
-    }, [handleSignatureRequest, requestNotificationPermission]);
+    }, [handleSignatureRequest, handleSignatureCancelled, handleSignatureReplaced, requestNotificationPermission]);
 
     return {
         // State
@@ -182,14 +254,13 @@ export const useSignatureRequest = (options: UseSignatureRequestOptions = {}) =>
         clearCurrentRequest,
         handleSignatureSubmitted,
         handleSignatureError,
+        acknowledgeRequest,
         requestNotificationPermission,
         getRequestById,
         clearHistory,
 
         // Computed
         hasActiveRequest: !!state.currentRequest,
-        unreadRequestsCount: state.requestHistory.filter(req => 
-            !(req as SignatureMessageData & { completed?: boolean }).completed
-        ).length
+        unreadRequestsCount: state.requestHistory.filter(req => !req.outcome).length
     };
 };
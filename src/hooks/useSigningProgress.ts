@@ -0,0 +1,37 @@
+import { useCallback, useRef } from 'react';
+import signalRService from '../services/signalRService';
+import type { SignatureMessageData, SigningProgressEvent, SigningProgressStage } from '../type';
+
+/**
+ * Hook streaming the patron's signing steps to the staff device that pushed the request.
+ * Progress is best effort: an event that cannot be sent is logged and dropped, never retried.
+ */
+export const useSigningProgress = (request: SignatureMessageData | null) => {
+    const requestRef = useRef(request);
+    requestRef.current = request;
+
+    const reportProgress = useCallback((
+        stage: SigningProgressStage,
+        details: { documentType?: number; message?: string } = {}
+    ) => {
+        const current = requestRef.current;
+        if (!current || !signalRService.isConnected()) return;
+
+        const event: SigningProgressEvent = {
+            staffDeviceId: current.staffDeviceId,
+            requestId: current.requestId,
+            sessionId: current.sessionId,
+            patronId: current.patronId,
+            stage,
+            ...details,
+            timestamp: new Date().toISOString()
+        };
+
+        console.log('📡 Signing progress:', stage, details);
+        signalRService.reportSigningProgress(event).catch(error => {
+            console.warn('⚠️ Failed to report signing progress:', stage, error);
+        });
+    }, []);
+
+    return { reportProgress };
+};
@@ -0,0 +1,32 @@
+import { useReducer, useCallback } from 'react';
+import {
+    signingSessionReducer,
+    initialSigningSessionState,
+    canTransition,
+    isSessionActive,
+    type SigningSessionEvent
+} from '../utils/signingSessionMachine';
+
+/**
+ * Hook binding the signing session state machine to React state
+ */
+export const useSigningSession = () => {
+    const [session, send] = useReducer(signingSessionReducer, initialSigningSessionState);
+
+    const can = useCallback((event: SigningSessionEvent) => {
+        return canTransition(session, event);
+    }, [session]);
+
+    return {
+        session,
+        send: send as (event: SigningSessionEvent) => void,
+        can,
+
+        // Computed
+        isActive: isSessionActive(session),
+        isSubmitting: session.status === 'submitting',
+        isExpired: session.status === 'expired',
+        isWithdrawn: session.status === 'withdrawn',
+        activeDocument: session.activeIndex !== null ? session.documents[session.activeIndex] : null
+    };
+};
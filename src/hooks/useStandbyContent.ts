@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { signatureApiService } from '../services/signatureApiService';
+import { isCancelledError } from '../services/httpClient';
+import type { StandbySlide } from '../type';
+
+/**
+ * Hook loading the standby slides for the current language and refreshing them periodically.
+ * A failed refresh keeps the slides already shown; an empty list means the built-in welcome slide.
+ */
+export const useStandbyContent = (language: string, enabled: boolean, refreshMinutes: number) => {
+    const [slides, setSlides] = useState<StandbySlide[]>([]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        let controller: AbortController | undefined;
+        const load = async () => {
+            controller?.abort();
+            controller = new AbortController();
+            try {
+                const content = await signatureApiService.getStandbyContent(language, { signal: controller.signal });
+                // Warm the browser cache so rotating to a slide never shows a half-loaded image
+                content.slides.forEach(slide => {
+                    if (slide.imageUrl) new Image().src = slide.imageUrl;
+                });
+                setSlides(content.slides);
+            } catch (error) {
+                if (isCancelledError(error)) return;
+                console.warn('⚠️ Failed to load standby content, keeping current slides:', error);
+            }
+        };
+
+        load();
+        const timer = setInterval(load, refreshMinutes * 60 * 1000);
+        return () => {
+            clearInterval(timer);
+            controller?.abort();
+        };
+    }, [language, enabled, refreshMinutes]);
+
+    return { slides };
+};
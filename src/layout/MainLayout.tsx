@@ -1,9 +1,16 @@
 // src/layouts/MainLayout.tsx
 import { Box, MenuItem, Select, Typography, IconButton, Divider } from "@mui/material";
 import { ArrowBack, Home } from "@mui/icons-material";
+import { useRef } from "react";
 import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
 import NetworkAlert from "../components/NetworkAlert";
 import { useNetworkStatus } from "../hooks/useNetworkStatus";
+import { useKioskContext } from "../contexts/useKioskContext";
+
+// Staff open the admin pages in kiosk mode by tapping the logo this many times in quick succession
+const ADMIN_TAP_COUNT = 5;
+const ADMIN_TAP_WINDOW_MS = 3000;
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -24,6 +31,9 @@ export default function MainLayout({
   const { t } = useTranslation();
   const currentLang = i18n.language;
   const { isOnline, isConnected, connectionType } = useNetworkStatus();
+  const { settings, isAdminUnlocked } = useKioskContext();
+  const navigate = useNavigate();
+  const logoTapsRef = useRef<number[]>([]);
 
   const handleChangeLang = (event: any) => {
     const lang = event.target.value;
@@ -31,6 +41,16 @@ export default function MainLayout({
     localStorage.setItem("lang", lang);
   };
 
+  const handleLogoTap = () => {
+    if (!settings.enabled) return;
+    const now = Date.now();
+    logoTapsRef.current = [...logoTapsRef.current.filter((at) => now - at < ADMIN_TAP_WINDOW_MS), now];
+    if (logoTapsRef.current.length >= ADMIN_TAP_COUNT) {
+      logoTapsRef.current = [];
+      navigate("/device-manager");
+    }
+  };
+
   // const flagSrc = (lang: string) =>
   //   lang === "vi" ? "vn.png" : "us.png";
 
@@ -63,7 +83,7 @@ export default function MainLayout({
         zIndex={1000}
       >
         {/* Logo */}
-        <img src="/images/TheGrandHoTram.png" alt="Logo" style={{ height: 55 }} />
+        <img src="/images/TheGrandHoTram.png" alt="Logo" style={{ height: 55 }} onClick={handleLogoTap} />
       </Box>
 
       {/* Navigation Buttons - Outside header, between header and content */}
@@ -140,63 +160,65 @@ export default function MainLayout({
         {children}
       </Box>
 
-      {/* Fixed Footer with Language selector */}
-      <Box
-        sx={{
-          position: 'fixed',
-          bottom: 0,
-          left: 0,
-          right: 0,
-          bgcolor: 'white',
-          borderTop: '1px solid #e0e0e0',
-          py: 1.5,
-          px: 2,
-          boxShadow: '0 -2px 10px rgba(0,0,0,0.05)',
-          zIndex: 1000,
-          display: 'flex',
-          justifyContent: 'center',
-          alignItems: 'center'
-        }}
-      >
-        <Select
-          value={currentLang}
-          onChange={handleChangeLang}
-          variant="outlined"
-          size="small"
+      {/* Fixed Footer with Language selector - a locked kiosk keeps the language it was given */}
+      {isAdminUnlocked && (
+        <Box
           sx={{
-            bgcolor: "#fff",
-            color: "#274549",
-            fontWeight: 600,
-            minWidth: 150,
-            "& .MuiOutlinedInput-notchedOutline": {
-              borderColor: "#274549",
-              borderWidth: 1.5,
-              borderRadius: 2
-            },
-            "&:hover .MuiOutlinedInput-notchedOutline": {
-              borderColor: "#1a3033",
-              borderWidth: 2
-            },
-            "&.Mui-focused .MuiOutlinedInput-notchedOutline": {
-              borderColor: "#274549",
-              borderWidth: 2
-            }
+            position: 'fixed',
+            bottom: 0,
+            left: 0,
+            right: 0,
+            bgcolor: 'white',
+            borderTop: '1px solid #e0e0e0',
+            py: 1.5,
+            px: 2,
+            boxShadow: '0 -2px 10px rgba(0,0,0,0.05)',
+            zIndex: 1000,
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center'
           }}
         >
-          <MenuItem value="vi">
-            <Box display="flex" alignItems="center" gap={1}>
-              <img src="/images/vn.png" width={20} height={15} alt="VN" />
-              <Typography fontWeight={500}>Tiếng Việt</Typography>
-            </Box>
-          </MenuItem>
-          <MenuItem value="en">
-            <Box display="flex" alignItems="center" gap={1}>
-              <img src="/images/us.png" width={20} height={15} alt="EN" />
-              <Typography fontWeight={500}>English</Typography>
-            </Box>
-          </MenuItem>
-        </Select>
-      </Box>
+          <Select
+            value={currentLang}
+            onChange={handleChangeLang}
+            variant="outlined"
+            size="small"
+            sx={{
+              bgcolor: "#fff",
+              color: "#274549",
+              fontWeight: 600,
+              minWidth: 150,
+              "& .MuiOutlinedInput-notchedOutline": {
+                borderColor: "#274549",
+                borderWidth: 1.5,
+                borderRadius: 2
+              },
+              "&:hover .MuiOutlinedInput-notchedOutline": {
+                borderColor: "#1a3033",
+                borderWidth: 2
+              },
+              "&.Mui-focused .MuiOutlinedInput-notchedOutline": {
+                borderColor: "#274549",
+                borderWidth: 2
+              }
+            }}
+          >
+            <MenuItem value="vi">
+              <Box display="flex" alignItems="center" gap={1}>
+                <img src="/images/vn.png" width={20} height={15} alt="VN" />
+                <Typography fontWeight={500}>Tiếng Việt</Typography>
+              </Box>
+            </MenuItem>
+            <MenuItem value="en">
+              <Box display="flex" alignItems="center" gap={1}>
+                <img src="/images/us.png" width={20} height={15} alt="EN" />
+                <Typography fontWeight={500}>English</Typography>
+              </Box>
+            </MenuItem>
+          </Select>
+        </Box>
+      )}
     </Box>
   );
 }
\ No newline at end of file
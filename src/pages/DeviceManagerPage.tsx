@@ -1,10 +1,15 @@
 import React from 'react';
+import { Box } from '@mui/material';
 import { DeviceManagerDemo } from '../components/DeviceManagerDemo';
+import { FleetDashboard } from '../components/FleetDashboard';
 import MainLayout from '../layout/MainLayout';
 
 const DeviceManagerPage: React.FC = () => {
     return (
         <MainLayout>
+            <Box sx={{ p: 3, pb: 0, maxWidth: 1200, mx: 'auto' }}>
+                <FleetDashboard />
+            </Box>
             <DeviceManagerDemo />
         </MainLayout>
     );
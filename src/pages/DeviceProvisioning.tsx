@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, Card, CircularProgress, TextField, Typography } from '@mui/material';
+import { VpnKey } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import MainLayout from '../layout/MainLayout';
+import { useDeviceAuthContext } from '../contexts/useDeviceAuthContext';
+import { ApiError, getApiErrorMessageKey } from '../services/httpClient';
+
+/**
+ * First-launch screen: staff enter the one-time provisioning code issued for this tablet
+ */
+export default function DeviceProvisioning() {
+    const { provision, revokedReason } = useDeviceAuthContext();
+    const [code, setCode] = useState('');
+    const [isProvisioning, setIsProvisioning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { t } = useTranslation();
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!code.trim()) return;
+
+        setIsProvisioning(true);
+        setError(null);
+        try {
+            await provision(code);
+        } catch (err) {
+            console.error('❌ Device provisioning failed:', err);
+            // A rejected code is the common case, so it gets its own message
+            setError(err instanceof ApiError && err.kind === 'validation'
+                ? t('InvalidProvisioningCode')
+                : t(getApiErrorMessageKey(err)));
+        } finally {
+            setIsProvisioning(false);
+        }
+    };
+
+    return (
+        <MainLayout>
+            <Box sx={{
+                minHeight: '100vh',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                bgcolor: '#f5f7fa',
+                px: 3
+            }}>
+                <Card
+                    component="form"
+                    onSubmit={handleSubmit}
+                    elevation={0}
+                    sx={{
+                        maxWidth: 480,
+                        width: '100%',
+                        textAlign: 'center',
+                        borderRadius: 4,
+                        bgcolor: 'white',
+                        p: { xs: 4, md: 6 },
+                        boxShadow: '0 8px 32px rgba(0,0,0,0.08)'
+                    }}
+                >
+                    <VpnKey sx={{ fontSize: 60, color: '#274549', mb: 2 }} />
+                    <Typography variant="h5" sx={{ fontWeight: 600, color: '#274549', mb: 1 }}>
+                        {t("ActivateDevice")}
+                    </Typography>
+                    <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+                        {t("EnterProvisioningCode")}
+                    </Typography>
+
+                    {revokedReason !== undefined && (
+                        <Alert severity="warning" sx={{ mb: 3, textAlign: 'left' }}>
+                            {t("DeviceAccessRevoked")}
+                        </Alert>
+                    )}
+
+                    <TextField
+                        fullWidth
+                        autoFocus
+                        label={t("ProvisioningCode")}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        disabled={isProvisioning}
+                        inputProps={{ autoComplete: 'off', autoCapitalize: 'characters', spellCheck: false }}
+                        sx={{ mb: 2 }}
+                    />
+
+                    {error && (
+                        <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>
+                            {error}
+                        </Alert>
+                    )}
+
+                    <Button
+                        type="submit"
+                        fullWidth
+                        size="large"
+                        variant="contained"
+                        disabled={isProvisioning || !code.trim()}
+                        startIcon={isProvisioning ? <CircularProgress size={16} /> : undefined}
+                        sx={{ bgcolor: '#274549', '&:hover': { bgcolor: '#1a3033' } }}
+                    >
+                        {t("Activate")}
+                    </Button>
+                </Card>
+            </Box>
+        </MainLayout>
+    );
+}
@@ -34,19 +34,42 @@ import {
 import { useSignalR } from '../hooks/useSignalR';
 import { Toast, useToast } from '../components/Toast';
 import { LoadingOverlay } from '../components/LoadingComponents';
-import type { PatronUpdateMessage, ValidationResult } from '../services/signalRService';
+import { SignatureReplay } from '../components/SignatureReplay';
+import { StaffPairingCard } from '../components/StaffPairingCard';
+import type {
+    PatronUpdateMessage,
+    SignatureStrokes,
+    SigningProgressEvent,
+    SigningProgressStage,
+    ValidationResult
+} from '../type';
 import MainLayout from '../layout/MainLayout';
 
+const progressStageLabels: Record<SigningProgressStage, string> = {
+    'document-opened': '📄 Opened document',
+    'scrolled-to-bottom': '📜 Scrolled to the end',
+    'drawing-started': '✍️ Started signing',
+    'document-agreed': '✅ Agreed to document',
+    'submitted': '🎉 Submitted signature',
+    'submit-failed': '❌ Submission failed'
+};
+
 interface PatronFormProps {
     patronId?: number;
+    // Signature captured on the patron's device, shown for staff review
+    submittedSignature?: {
+        strokes?: SignatureStrokes | null;
+        imageUrl?: string | null;
+    };
 }
 
-export const PatronForm: React.FC<PatronFormProps> = ({ patronId }) => {
+export const PatronForm: React.FC<PatronFormProps> = ({ patronId, submittedSignature }) => {
     const navigate = useNavigate();
     const [statusMessage, setStatusMessage] = useState<string>('');
     const [validationErrors, setValidationErrors] = useState<string[]>([]);
     const [incomeValidated, setIncomeValidated] = useState<boolean>(false);
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
+    const [signingProgress, setSigningProgress] = useState<SigningProgressEvent[]>([]);
 
     // Use toast hook for notifications
     const { open, message, severity, showToast, hideToast } = useToast();
@@ -93,6 +116,16 @@ export const PatronForm: React.FC<PatronFormProps> = ({ patronId }) => {
         );
     }, [showToast]);
 
+    // Handle live signing progress from the patron's tablet
+    const handleSigningProgress = useCallback((event: SigningProgressEvent) => {
+        if (patronId && event.patronId !== patronId) return;
+
+        // A new request starts a new timeline
+        setSigningProgress(prev =>
+            prev.length > 0 && prev[0].requestId !== event.requestId ? [event] : [...prev, event]
+        );
+    }, [patronId]);
+
     // Setup SignalR with handlers
     const {
         isConnected,
@@ -108,7 +141,8 @@ export const PatronForm: React.FC<PatronFormProps> = ({ patronId }) => {
         autoConnect: true,
         onPatronUpdate: handlePatronUpdate,
         onValidationResult: handleValidationResult,
-        onIncomeValidation: handleIncomeValidation
+        onIncomeValidation: handleIncomeValidation,
+        onSigningProgress: handleSigningProgress
     });
 
     // Handle form submission
@@ -350,6 +384,9 @@ export const PatronForm: React.FC<PatronFormProps> = ({ patronId }) => {
                             </Card>
                         </Slide>
 
+                        {/* Tablet Pairing Card */}
+                        <StaffPairingCard />
+
                         {/* Status Message Card */}
                         {statusMessage && (
                             <Grow in timeout={600}>
@@ -513,6 +550,70 @@ export const PatronForm: React.FC<PatronFormProps> = ({ patronId }) => {
                             </Grow>
                         )}
 
+                        {/* Signing Progress Card */}
+                        {signingProgress.length > 0 && (
+                            <Grow in timeout={800}>
+                                <Card
+                                    elevation={2}
+                                    sx={{
+                                        borderRadius: 3,
+                                        background: 'rgba(255, 255, 255, 1)',
+                                        border: '1px solid rgba(0, 0, 0, 0.08)',
+                                        boxShadow: '0 2px 15px rgba(0, 0, 0, 0.06)'
+                                    }}
+                                >
+                                    <CardContent sx={{ p: 3 }}>
+                                        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600, color: 'text.primary', mb: 2 }}>
+                                            Patron Signing Progress
+                                        </Typography>
+                                        <List dense>
+                                            {signingProgress.map((event, index) => (
+                                                <ListItem key={`${event.timestamp}-${index}`} disableGutters>
+                                                    <ListItemText
+                                                        primary={progressStageLabels[event.stage]}
+                                                        secondary={[
+                                                            new Date(event.timestamp).toLocaleTimeString(),
+                                                            event.documentType !== undefined ? `Document type ${event.documentType}` : null,
+                                                            event.message
+                                                        ].filter(Boolean).join(' · ')}
+                                                        primaryTypographyProps={{
+                                                            fontWeight: index === signingProgress.length - 1 ? 600 : 400,
+                                                            color: event.stage === 'submit-failed' ? 'error' : 'text.primary'
+                                                        }}
+                                                    />
+                                                </ListItem>
+                                            ))}
+                                        </List>
+                                    </CardContent>
+                                </Card>
+                            </Grow>
+                        )}
+
+                        {/* Patron Signature Card */}
+                        {submittedSignature && (
+                            <Grow in timeout={1000}>
+                                <Card
+                                    elevation={2}
+                                    sx={{
+                                        borderRadius: 3,
+                                        background: 'rgba(255, 255, 255, 1)',
+                                        border: '1px solid rgba(0, 0, 0, 0.08)',
+                                        boxShadow: '0 2px 15px rgba(0, 0, 0, 0.06)'
+                                    }}
+                                >
+                                    <CardContent sx={{ p: 3 }}>
+                                        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600, color: 'text.primary', mb: 2 }}>
+                                            Patron Signature
+                                        </Typography>
+                                        <SignatureReplay
+                                            strokes={submittedSignature.strokes}
+                                            imageUrl={submittedSignature.imageUrl}
+                                        />
+                                    </CardContent>
+                                </Card>
+                            </Grow>
+                        )}
+
                         {/* Action Buttons Card */}
                         <Slide direction="up" in timeout={1200}>
                             <Card
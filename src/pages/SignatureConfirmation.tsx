@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import {
     Box,
     Card,
@@ -19,7 +19,10 @@ import {
     useMediaQuery,
     Checkbox,
     FormControlLabel,
-    CircularProgress
+    CircularProgress,
+    Stepper,
+    Step,
+    StepLabel
 } from '@mui/material';
 import {
     Person,
@@ -31,8 +34,11 @@ import {
     Schedule,
     Assignment,
     Edit,
+    Fullscreen,
     Send,
     Close,
+    CancelScheduleSend,
+    CloudUpload,
     Description,
     Hotel,
     Stars,
@@ -40,14 +46,33 @@ import {
 } from '@mui/icons-material';
 import MainLayout from "../layout/MainLayout";
 import { useDeviceManagerContext } from '../contexts/deviceManagerContext';
+import { useKioskContext } from '../contexts/useKioskContext';
 import { useSignatureRequest } from '../hooks/useSignatureRequest';
+import { useSigningSession } from '../hooks/useSigningSession';
+import { useSigningProgress } from '../hooks/useSigningProgress';
+import { useSignatureOutbox } from '../hooks/useSignatureOutbox';
 import { SignatureCanvas } from '../components/SignatureCanvas';
+import { FullScreenSignaturePad } from '../components/FullScreenSignaturePad';
 import { signatureApiService } from '../services/signatureApiService';
-import type { SignatureMessageData, SignatureConfirmRequest, DeviceMappingResponse } from '../type';
-import { DocumentTypes } from '../type';
+import { getApiErrorMessageKey, isCancelledError } from '../services/httpClient';
+import signatureOutbox, { type OutboxSubmission } from '../services/signatureOutbox';
+import signalRService from '../services/signalRService';
+import type { DeviceMappingResponse, SignatureAckStatus, SignatureStrokes } from '../type';
+import { getWorkflowDocument, resolvePatronLanguage, resolveSessionDocuments } from '../utils/documentWorkflow';
+import {
+    getDocumentProgress,
+    isDocumentBlocked,
+    type SessionDocument,
+    type SigningSessionStatus
+} from '../utils/signingSessionMachine';
+import { strokesToSvg } from '../utils/signatureStrokes';
+import { computeSignatureMetrics, validateSignatureQuality } from '../utils/signatureQuality';
 import { useTranslation } from 'react-i18next';
 import { useNetworkStatus } from '../hooks/useNetworkStatus';
 import NetworkAlert from '../components/NetworkAlert';
+import { StandbyScreen } from '../components/StandbyScreen';
+import { resolveStandbySettings } from '../utils/standbySettings';
+import { playChime, primeChime } from '../utils/chime';
 
 const stepDescriptions = {
     'idle': 'Initializing system...',
@@ -69,50 +94,52 @@ const stepProgress = {
     'ready': 100
 };
 
+// Session statuses reported to staff as signature request acknowledgements
+const sessionAckStatuses: Partial<Record<SigningSessionStatus, SignatureAckStatus>> = {
+    'reviewing': 'displayed',
+    'expired': 'expired',
+    'cancelled': 'declined'
+};
+
 export default function SignatureConfirmation() {
-    const VIETNAM_COUNTRY_ID = '704';
-    const [signatureDialogOpen, setSignatureDialogOpen] = useState(false);
-    const [currentSignatureData, setCurrentSignatureData] = useState<SignatureMessageData | null>(null);
-    const [canvasSignature, setCanvasSignature] = useState<string | null>(null);
-    const [isSubmittingSignature, setIsSubmittingSignature] = useState(false);
-    const [signatureError, setSignatureError] = useState<string | null>(null);
+    const {
+        session,
+        send,
+        can,
+        isActive,
+        isSubmitting,
+        isExpired,
+        isWithdrawn,
+        activeDocument
+    } = useSigningSession();
     const [timeLeft, setTimeLeft] = useState<number | null>(null);
     const [htmlContent, setHtmlContent] = useState<string>('');
     const [isLoadingHtml, setIsLoadingHtml] = useState(false);
-    const [showSignaturePanel, setShowSignaturePanel] = useState(false);
-
-    // Terms and Conditions states
-    const [termsDialogOpen, setTermsDialogOpen] = useState(false);
-    const [termsContent, setTermsContent] = useState<string>('');
-    const [isLoadingTerms, setIsLoadingTerms] = useState(false);
-    const [hasAgreedToTerms, setHasAgreedToTerms] = useState(false);
-    const [hasScrolledToBottomTerms, setHasScrolledToBottomTerms] = useState(false);
-    const [termsSignature, setTermsSignature] = useState<string | null>(null);
-    const [confirmedTermsSignature, setConfirmedTermsSignature] = useState<string | null>(null);
-    const [isSubmittingTermsSignature, setIsSubmittingTermsSignature] = useState(false);
-    const [termsError, setTermsError] = useState<string | null>(null);
-
-    // Notification states
-    const [notificationDialogOpen, setNotificationDialogOpen] = useState(false);
-    const [notificationContent, setNotificationContent] = useState<string>('');
-    const [isLoadingNotification, setIsLoadingNotification] = useState(false);
-    const [hasAgreedToNotification, setHasAgreedToNotification] = useState(false);
-    const [notificationSignature, setNotificationSignature] = useState<string | null>(null);
-    const [isSubmittingNotificationSignature, setIsSubmittingNotificationSignature] = useState(false);
-    const [notificationError, setNotificationError] = useState<string | null>(null);
-
-    // Personal Notification states
-    const [personalNotificationDialogOpen, setPersonalNotificationDialogOpen] = useState(false);
-    const [personalNotificationContent, setPersonalNotificationContent] = useState<string>('');
-    const [isLoadingPersonalNotification, setIsLoadingPersonalNotification] = useState(false);
-    const [hasAgreedToPersonalNotification, setHasAgreedToPersonalNotification] = useState(false);
-    const [personalNotificationSignature, setPersonalNotificationSignature] = useState<string | null>(null);
-    const [isSubmittingPersonalNotificationSignature, setIsSubmittingPersonalNotificationSignature] = useState(false);
-    const [personalNotificationError, setPersonalNotificationError] = useState<string | null>(null);
-
-    // Current Patron nationality
-    const [currentPatronNationality, setCurrentPatronNationality] = useState<string>('');
-
+    const [reviewError, setReviewError] = useState<string | null>(null);
+
+    // Document dialog states (shared by every document in the workflow)
+    const [documentContent, setDocumentContent] = useState<string>('');
+    const [isLoadingDocument, setIsLoadingDocument] = useState(false);
+    const [hasScrolledToBottom, setHasScrolledToBottom] = useState(false);
+    const [documentSignature, setDocumentSignature] = useState<string | null>(null);
+    const [documentStrokes, setDocumentStrokes] = useState<SignatureStrokes | null>(null);
+    const [isSubmittingDocument, setIsSubmittingDocument] = useState(false);
+    const [documentError, setDocumentError] = useState<string | null>(null);
+    const [isFullScreenSigning, setIsFullScreenSigning] = useState(false);
+    // The inline canvas cannot show a signature drawn elsewhere, so it is replaced by a preview
+    const [signedInFullScreen, setSignedInFullScreen] = useState(false);
+    const [withdrawnReason, setWithdrawnReason] = useState<string | null>(null);
+
+    // In-flight fetches owned by the session dialog and the document dialog, aborted when they close
+    const reviewAbortRef = useRef<AbortController | null>(null);
+    const documentAbortRef = useRef<AbortController | null>(null);
+
+    // Live progress for the staff device that pushed the request
+    const { reportProgress } = useSigningProgress(session.request);
+
+    const activeWorkflowDocument = activeDocument ? getWorkflowDocument(activeDocument.documentType) : undefined;
+    const mustScrollDocument = !!activeWorkflowDocument?.requiresScrollToBottom && !hasScrolledToBottom;
+    const documentProgress = getDocumentProgress(session);
     // Current hostname state
     const [currentHostName, setCurrentHostName] = useState<string>('');
     const [currentHostIP, setCurrentHostIP] = useState<string>('');
@@ -133,6 +160,9 @@ export default function SignatureConfirmation() {
     const networkStatus = useNetworkStatus();
     const [wasOffline, setWasOffline] = useState(false);
 
+    // Signatures saved while offline, retried when the network returns
+    const { pendingCount: outboxPendingCount } = useSignatureOutbox(networkStatus.isConnected);
+
     // Sync language when i18n language changes
     useEffect(() => {
         const handleLanguageChange = (lng: string) => {
@@ -199,10 +229,17 @@ export default function SignatureConfirmation() {
 
         loadDeviceMapping();
 
-        // Refresh device mapping every 30 seconds
+        // Refresh device mapping every 30 seconds, and at once when a staff device pairs with this tablet
         const interval = setInterval(loadDeviceMapping, 30000);
+        const handleDevicePaired = () => {
+            loadDeviceMapping();
+        };
+        signalRService.onDevicePaired(handleDevicePaired);
 
-        return () => clearInterval(interval);
+        return () => {
+            clearInterval(interval);
+            signalRService.off('DevicePaired', handleDevicePaired);
+        };
     }, []);
 
     // Device Manager Context
@@ -219,6 +256,17 @@ export default function SignatureConfirmation() {
         retry
     } = useDeviceManagerContext();
 
+    const { isIdle: isKioskIdle, markActivity } = useKioskContext();
+
+    // Standby screen between patrons
+    const [standbySettings] = useState(resolveStandbySettings);
+    const showStandby = standbySettings.enabled && isReady && !isActive;
+
+    useEffect(() => {
+        if (!standbySettings.chime) return;
+        return primeChime();
+    }, [standbySettings.chime]);
+
     // Handle network status changes - auto reconnect when online
     useEffect(() => {
         const handleNetworkChange = async () => {
@@ -256,62 +304,74 @@ export default function SignatureConfirmation() {
         handleNetworkChange();
     }, [networkStatus.isOnline, networkStatus.isConnected, wasOffline, deviceError, retry]);
 
+    // Drop whatever the patron was drawing or had open for the previous request
+    const discardDocumentDraft = useCallback(() => {
+        documentAbortRef.current?.abort();
+        setDocumentSignature(null);
+        setDocumentStrokes(null);
+        setSignedInFullScreen(false);
+        setIsFullScreenSigning(false);
+        setDocumentError(null);
+        setHasScrolledToBottom(false);
+    }, []);
+
     // Signature Request Hook
     const {
         totalRequests,
         handleSignatureSubmitted,
-        handleSignatureError
+        handleSignatureError,
+        acknowledgeRequest
     } = useSignatureRequest({
         onSignatureRequest: async (data) => {
             console.log('📝 New signature request received:', data);
-            setCurrentSignatureData(data);
+            // Give the patron a full idle timeout from now, not from the last touch
+            markActivity();
+            if (standbySettings.chime) {
+                playChime();
+            }
 
             // Auto change language based on patron nationality
-            let realNationality = 'en';
-            if (data && data.patronData && data.patronData.nationality === VIETNAM_COUNTRY_ID) {
-                // Vietnam nationality - switch to Vietnamese
-                console.log('🇻🇳 Patron is Vietnamese - switching to Vietnamese language');
-                setCurrentPatronNationality(data.patronData.nationality);
-                realNationality = "vi";
-                i18n.changeLanguage('vi'); // Auto switch to Vietnamese
-            } else {
-                // Other nationalities - switch to English
-                console.log('🌍 Patron is non-Vietnamese - switching to English language');
-                setCurrentPatronNationality(data?.patronData?.nationality || '');
-                realNationality = "en";
-                i18n.changeLanguage('en'); // Auto switch to English
-            }
+            const realNationality = resolvePatronLanguage(data?.patronData);
+            console.log('🌍 Switching document language for patron nationality:', data?.patronData?.nationality, '->', realNationality);
+            i18n.changeLanguage(realNationality);
+
+            const documents = resolveSessionDocuments(data);
+            console.log('📋 Resolved documents to sign:', documents);
+            discardDocumentDraft();
+            setWithdrawnReason(null);
+            send({ type: 'REQUEST_RECEIVED', request: data, documents });
 
             // Call getReviewableSignatures API
+            reviewAbortRef.current?.abort();
+            const controller = new AbortController();
+            reviewAbortRef.current = controller;
+
             setIsLoadingHtml(true);
+            setReviewError(null);
             try {
                 console.log('🔄 Fetching reviewable signatures for patronId:', data.patronId, 'language:', realNationality);
 
-                const response = await signatureApiService.getReviewableSignatures(data.patronId, realNationality);
+                const response = await signatureApiService.getReviewableSignatures(data.patronId, realNationality, { signal: controller.signal });
                 console.log('✅ Reviewable signatures response:', response);
 
-                // Handle response format: { data: 'htmlcontent', message: ..., status: ..., success: ... }
-                if (response && typeof response === 'object') {
-                    const htmlData = (response as any).data || (response as any).htmlContent;
-                    if (htmlData) {
-                        setHtmlContent(htmlData);
-                    } else {
-                        console.warn('⚠️ No HTML content in response:', response);
-                        setHtmlContent('');
-                    }
+                // The decoder normalizes every response format to htmlContent
+                if (response.htmlContent) {
+                    setHtmlContent(response.htmlContent);
                 } else {
-                    console.warn('⚠️ Invalid response format:', response);
+                    console.warn('⚠️ No HTML content in response:', response);
                     setHtmlContent('');
                 }
             } catch (error) {
+                if (isCancelledError(error)) return;
                 console.error('❌ Failed to fetch reviewable signatures:', error);
-                setSignatureError('Failed to load signature details');
+                setReviewError(getApiErrorMessageKey(error, 'Failed to load signature details'));
                 setHtmlContent('');
             } finally {
-                setIsLoadingHtml(false);
+                if (reviewAbortRef.current === controller) {
+                    reviewAbortRef.current = null;
+                    setIsLoadingHtml(false);
+                }
             }
-
-            setSignatureDialogOpen(true);
         },
         onSignatureSubmitted: (requestId) => {
             console.log('✅ Signature submitted successfully:', requestId);
@@ -319,257 +379,286 @@ export default function SignatureConfirmation() {
         onSignatureError: (error) => {
             console.error('❌ Signature error:', error);
         },
+        onSignatureWithdrawn: (cancellation) => {
+            discardDocumentDraft();
+            setWithdrawnReason(cancellation.reason || null);
+            send({ type: 'WITHDRAW' });
+        },
         autoShowDialog: false // We'll handle dialog manually
     });
 
-    // Timer for signature expiry
+    // Kiosk inactivity: a session the patron walked away from is dropped so the standby screen returns.
+    // A submission in flight is left to finish.
+    useEffect(() => {
+        if (!isKioskIdle) return;
+
+        if (isWithdrawn) {
+            setWithdrawnReason(null);
+            send({ type: 'RESET' });
+        } else if (can({ type: 'CANCEL' })) {
+            console.log('💤 Abandoned signing session, cancelling');
+            discardDocumentDraft();
+            send({ type: 'CANCEL' });
+        }
+    }, [isKioskIdle, isWithdrawn, can, send, discardDocumentDraft]);
+
+    // Report what the patron is seeing back to staff; the hook drops repeats of the same status
+    useEffect(() => {
+        const request = session.request;
+        if (!request) return;
+
+        const ackStatus = sessionAckStatuses[session.status];
+        if (ackStatus) {
+            acknowledgeRequest(request, ackStatus);
+        }
+    }, [session.status, session.request, acknowledgeRequest]);
+
+    // Timer for signature expiry. A submission in flight is allowed to finish; if it fails after the
+    // deadline, the session expires as soon as it is back in review, so the timer is armed again then.
     useEffect(() => {
-        if (!currentSignatureData || !currentSignatureData.expiryMinutes) {
+        const request = session.request;
+        if (!isActive || !request || !request.expiryMinutes) {
             setTimeLeft(null);
             return;
         }
 
-        const requestTime = new Date(currentSignatureData.timestamp);
-        const expiryTime = new Date(requestTime.getTime() + currentSignatureData.expiryMinutes * 60 * 1000);
+        const requestTime = new Date(request.timestamp);
+        const expiryTime = new Date(requestTime.getTime() + request.expiryMinutes * 60 * 1000);
 
+        // Returns true once the request has expired
         const updateTimer = () => {
             const now = new Date();
             const remaining = Math.max(0, Math.floor((expiryTime.getTime() - now.getTime()) / 1000));
             setTimeLeft(remaining);
 
             if (remaining <= 0) {
-                setSignatureError('Signature request has expired');
+                if (!isSubmitting) send({ type: 'EXPIRE' });
+                return true;
             }
+            return false;
         };
 
-        updateTimer();
-        const interval = setInterval(updateTimer, 1000);
+        if (updateTimer()) return;
+        const interval = setInterval(() => {
+            if (updateTimer()) {
+                clearInterval(interval);
+            }
+        }, 1000);
 
         return () => clearInterval(interval);
-    }, [currentSignatureData]);
+    }, [session.request, isActive, isSubmitting, send]);
 
-    // Reset signature dialog state when closed
+    // Reset dialog view state when the session is no longer shown
     useEffect(() => {
-        if (!signatureDialogOpen) {
-            setCanvasSignature(null);
-            setSignatureError(null);
-            setIsSubmittingSignature(false);
+        if (!isActive) {
+            reviewAbortRef.current?.abort();
+            documentAbortRef.current?.abort();
+            setReviewError(null);
             setHtmlContent('');
             setIsLoadingHtml(false);
-            setShowSignaturePanel(false);
-            setHasAgreedToTerms(false);
-            setHasAgreedToNotification(false);
-            setHasAgreedToPersonalNotification(false);
-            setNotificationSignature(null);
-            setPersonalNotificationSignature(null);
-            setTermsSignature(null);
-            setNotificationError(null);
-            setPersonalNotificationError(null);
-            setTermsError(null);
-            setIsSubmittingNotificationSignature(false);
-            setIsSubmittingPersonalNotificationSignature(false);
-            setIsSubmittingTermsSignature(false);
-            setConfirmedTermsSignature(null);
+            setDocumentSignature(null);
+            setSignedInFullScreen(false);
+            setDocumentStrokes(null);
+            setDocumentError(null);
+            setIsSubmittingDocument(false);
+            setHasScrolledToBottom(false);
         }
-    }, [signatureDialogOpen]);
-
-    // Load Terms and Conditions
-    const loadTermsAndConditions = async () => {
-        setIsLoadingTerms(true);
-        setTermsDialogOpen(true);
-        setHasScrolledToBottomTerms(false);
-        // Initialize with confirmed signature when opening dialog
-        if (hasAgreedToTerms) {
-            setTermsSignature(confirmedTermsSignature);
-        } else {
-            setTermsSignature(null);
-            setConfirmedTermsSignature(null);
-            console.log(confirmedTermsSignature);
+    }, [isActive]);
+
+    // Load a workflow document and open its dialog
+    const loadDocument = async (index: number) => {
+        const canOpen = can({ type: 'OPEN_DOCUMENT', index });
+        send({ type: 'OPEN_DOCUMENT', index });
+        if (!canOpen) return;
+
+        const sessionDocument = session.documents[index];
+        reportProgress('document-opened', { documentType: sessionDocument.documentType });
+        const workflowDocument = getWorkflowDocument(sessionDocument.documentType);
+        if (!workflowDocument) {
+            console.error('❌ No workflow definition for document type:', sessionDocument.documentType);
+            setDocumentContent('<p>Document not available</p>');
+            return;
         }
 
+        setIsLoadingDocument(true);
+        setHasScrolledToBottom(false);
+        setDocumentError(null);
+        // Initialize with the confirmed signature when re-opening a signed document
+        setDocumentSignature(sessionDocument.signature);
+        setDocumentStrokes(sessionDocument.strokes);
+
+        documentAbortRef.current?.abort();
+        const controller = new AbortController();
+        documentAbortRef.current = controller;
+
         try {
-            console.log('🔄 Fetching terms and conditions for language:', selectedLanguage);
-            let request = {
-                Lang: selectedLanguage,
-                PatronId: currentSignatureData?.patronId || 0,
-                SignatureDataUrl: confirmedTermsSignature || ''
+            console.log('🔄 Fetching document', workflowDocument.endpoint, 'for language:', sessionDocument.language || selectedLanguage);
+            const request = {
+                Lang: sessionDocument.language || selectedLanguage,
+                PatronId: session.request?.patronId || 0,
+                SignatureDataUrl: sessionDocument.signature || ''
             };
-            const response = await signatureApiService.getTermsAndConditionsV2(request);
-            console.log('✅ Terms and conditions response:', response);
+            const response = await signatureApiService[workflowDocument.endpoint](request, { signal: controller.signal });
+            console.log('✅ Document response:', response);
 
-            if (response && typeof response === 'object') {
-                const termsData = (response as any).data || (response as any).htmlContent || (response as any).content;
-                if (termsData) {
-                    setTermsContent(termsData);
-                } else {
-                    console.warn('⚠️ No terms content in response:', response);
-                    setTermsContent('<p>Terms and conditions not available</p>');
-                }
+            if (response.htmlContent) {
+                setDocumentContent(response.htmlContent);
             } else {
-                console.warn('⚠️ Invalid terms response format:', response);
-                setTermsContent('<p>Terms and conditions not available</p>');
+                console.warn('⚠️ No document content in response:', response);
+                setDocumentContent('<p>Document not available</p>');
             }
         } catch (error) {
-            console.error('❌ Failed to fetch terms and conditions:', error);
-            setTermsContent('<p>Failed to load terms and conditions</p>');
+            if (isCancelledError(error)) return;
+            console.error('❌ Failed to fetch document:', error);
+            setDocumentContent('<p>Failed to load document</p>');
+            setDocumentError(t(getApiErrorMessageKey(error, 'Failed to load document')));
         } finally {
-            setIsLoadingTerms(false);
+            if (documentAbortRef.current === controller) {
+                documentAbortRef.current = null;
+                setIsLoadingDocument(false);
+            }
         }
     };
 
-    // Handle scroll in Terms and Conditions dialog
-    const handleTermsScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    // Handle scroll in the document dialog
+    const handleDocumentScroll = (e: React.UIEvent<HTMLDivElement>) => {
         const target = e.target as HTMLDivElement;
         const bottom = target.scrollHeight - target.scrollTop <= target.clientHeight + 5; // 5px threshold
-        if (bottom) {
-            setHasScrolledToBottomTerms(true);
+        if (bottom && !hasScrolledToBottom) {
+            setHasScrolledToBottom(true);
+            reportProgress('scrolled-to-bottom', { documentType: activeDocument?.documentType });
         }
     };
 
-    // Handle agree to terms
-    const handleAgreeToTerms = () => {
-        setHasAgreedToTerms(true);
-        // Save confirmed signature when user agrees
-        setConfirmedTermsSignature(termsSignature);
-        setTermsDialogOpen(false);
-        setHasScrolledToBottomTerms(false); // Reset for next time
-    };
-    // Load Notification
-    const loadNotification = async () => {
-        setIsLoadingNotification(true);
-        setNotificationDialogOpen(true);
-        setNotificationError(null);
-        setNotificationSignature(null);
-        try {
-            console.log('🔄 Fetching notification for language:', selectedLanguage);
-            let request = {
-                Lang: selectedLanguage,
-                PatronId: currentSignatureData?.patronId || 0,
-                SignatureDataUrl: canvasSignature || ''
-            };
-            const response = await signatureApiService.getNotification(request);
-            console.log('✅ Notification response:', response);
+    // Submit one signed document through the endpoint its workflow definition names.
+    // Network failures leave the submission in the outbox and count as success for the patron.
+    // Every attempt for a document reuses its idempotency key, and an accepted document is marked stored.
+    const submitDocumentSignature = async (
+        index: number,
+        signature: string,
+        strokes: SignatureStrokes | null
+    ): Promise<{ success: boolean; message?: string; queued?: boolean }> => {
+        const request = session.request;
+        const document = session.documents[index];
+        const workflowDocument = document && getWorkflowDocument(document.documentType);
+        if (!request || !workflowDocument) {
+            return { success: false };
+        }
 
-            if (response && typeof response === 'object') {
-                const notificationData = (response as any).data || (response as any).htmlContent || (response as any).content;
-                if (notificationData) {
-                    setNotificationContent(notificationData);
-                } else {
-                    console.warn('⚠️ No notification content in response:', response);
-                    setNotificationContent('<p>Notification not available</p>');
+        // Vector data lets the backend keep a resolution-independent, replayable signature
+        const vector = strokes
+            ? { strokes, signatureSvg: strokesToSvg(strokes), signatureMetrics: computeSignatureMetrics(strokes) }
+            : {};
+
+        console.log('🔄 Submitting signature for document type:', document.documentType, 'via', workflowDocument.submitEndpoint);
+
+        const submission: OutboxSubmission = workflowDocument.submitEndpoint === 'submitSignature'
+            ? {
+                endpoint: 'submitSignature',
+                request: {
+                    sessionId: request.sessionId,
+                    patronId: request.patronId,
+                    signature,
+                    staffDeviceId: request.staffDeviceId,
+                    documentType: document.documentType,
+                    ...vector
                 }
-            } else {
-                console.warn('⚠️ Invalid notification response format:', response);
-                setNotificationContent('<p>Notification not available</p>');
             }
-        } catch (error) {
-            console.error('❌ Failed to fetch notification:', error);
-            setNotificationContent('<p>Failed to load notification</p>');
-        } finally {
-            setIsLoadingNotification(false);
-        }
-    };
+            : {
+                endpoint: 'submitPdpOrHtpNotificationSignature',
+                request: {
+                    patronId: request.patronId,
+                    signature,
+                    staffDeviceId: request.staffDeviceId,
+                    documentType: document.documentType,
+                    ...vector
+                }
+            };
 
-    const handleAgreeToNotification = async () => {
-        if (!currentSignatureData || !notificationSignature) {
-            setNotificationError(t('Please provide your signature'));
-            return;
+        const result = await signatureOutbox.submit(submission, document.idempotencyKey, {
+            requestId: request.requestId,
+            sessionId: request.sessionId
+        });
+        if (result.status !== 'rejected') {
+            send({ type: 'DOCUMENT_STORED', index });
         }
+        return { success: result.status !== 'rejected', message: result.message, queued: result.status === 'queued' };
+    };
 
-        setIsSubmittingNotificationSignature(true);
-        setNotificationError(null);
+    // Agree to the open document, submitting it right away when the session says so
+    const handleAgreeToDocument = async () => {
+        if (!session.request || !activeDocument || !activeWorkflowDocument) return;
 
-        try {
-            const response = await signatureApiService.submitPdpOrHtpNotificationSignature({
-                patronId: currentSignatureData.patronId,
-                signature: notificationSignature,
-                staffDeviceId: currentSignatureData.staffDeviceId,
-                documentType: DocumentTypes.PDPNotification
-            });
+        if (activeWorkflowDocument.requiresSignature) {
+            // Taps are not recorded as strokes, so a dot leaves a signature image but no strokes
+            if (!documentSignature || !documentStrokes) {
+                setDocumentError(t('Please provide your signature'));
+                return;
+            }
 
-            if (response) {
-                setHasAgreedToNotification(true);
-                setNotificationDialogOpen(false);
-                setNotificationSignature(null);
-                setCanvasSignature(notificationSignature);
-            } else {
-                setNotificationError(t('Failed to submit signature'));
+            const quality = validateSignatureQuality(documentStrokes);
+            if (!quality.valid) {
+                console.warn('⚠️ Signature rejected by quality check:', quality.errors, quality.metrics);
+                setDocumentError(t(quality.errors[0]));
+                return;
             }
-        } catch (error) {
-            console.error('❌ Error submitting notification signature:', error);
-            setNotificationError(t('Failed to submit signature'));
-        } finally {
-            setIsSubmittingNotificationSignature(false);
         }
-    };
 
-    // Handle load personal Notification
-    const loadPersonalNotification = async () => {
-        setIsLoadingPersonalNotification(true);
-        setPersonalNotificationDialogOpen(true);
-        setPersonalNotificationError(null);
-        setPersonalNotificationSignature(null);
-        try {
-            console.log('🔄 Fetching personal notification for language:', selectedLanguage);
-            let request = {
-                Lang: selectedLanguage,
-                PatronId: currentSignatureData?.patronId || 0,
-                SignatureDataUrl: canvasSignature || ''
-            };
-            const response = await signatureApiService.getPersonalNotification(request);
-            console.log('✅ Personal notification response:', response);
+        // A document the server already took is not sent again when the patron re-agrees
+        if (activeDocument.submission === 'on-agree' && documentSignature && !activeDocument.stored && session.activeIndex !== null) {
+            setIsSubmittingDocument(true);
+            setDocumentError(null);
 
-            if (response && typeof response === 'object') {
-                const personalNotificationData = (response as any).data || (response as any).htmlContent || (response as any).content;
-                if (personalNotificationData) {
-                    setPersonalNotificationContent(personalNotificationData);
-                } else {
-                    console.warn('⚠️ No personal notification content in response:', response);
-                    setPersonalNotificationContent('<p>Personal notification not available</p>');
+            try {
+                const result = await submitDocumentSignature(session.activeIndex, documentSignature, documentStrokes);
+
+                if (!result.success) {
+                    reportProgress('submit-failed', { documentType: activeDocument.documentType, message: result.message });
+                    setDocumentError(result.message || t('Failed to submit signature'));
+                    return;
                 }
-            } else {
-                console.warn('⚠️ Invalid personal notification response format:', response);
-                setPersonalNotificationContent('<p>Personal notification not available</p>');
+            } catch (error) {
+                console.error('❌ Error submitting document signature:', error);
+                reportProgress('submit-failed', { documentType: activeDocument.documentType, message: String(error) });
+                setDocumentError(t(getApiErrorMessageKey(error, 'Failed to submit signature')));
+                return;
+            } finally {
+                setIsSubmittingDocument(false);
             }
-        } catch (error) {
-            console.error('❌ Failed to fetch personal notification:', error);
-            setPersonalNotificationContent('<p>Failed to load personal notification</p>');
-        } finally {
-            setIsLoadingPersonalNotification(false);
         }
-    };
 
-    const handleAgreeToPersonalNotification = async () => {
-        if (!currentSignatureData || !personalNotificationSignature) {
-            setPersonalNotificationError(t('Please provide your signature'));
-            return;
-        }
+        send({ type: 'DOCUMENT_AGREED', signature: documentSignature, strokes: documentStrokes });
+        reportProgress('document-agreed', { documentType: activeDocument.documentType });
+        setDocumentSignature(null);
+        setSignedInFullScreen(false);
+        setDocumentStrokes(null);
+        setHasScrolledToBottom(false); // Reset for next time
+    };
 
-        setIsSubmittingPersonalNotificationSignature(true);
-        setPersonalNotificationError(null);
+    // Close document dialog without changing the agreement
+    const handleCloseDocument = () => {
+        documentAbortRef.current?.abort();
+        send({ type: 'CLOSE_DOCUMENT' });
+        setDocumentSignature(null);
+        setSignedInFullScreen(false);
+        setDocumentStrokes(null);
+        setDocumentError(null);
+        setHasScrolledToBottom(false);
+    };
 
-        try {
-            const response = await signatureApiService.submitPdpOrHtpNotificationSignature({
-                patronId: currentSignatureData.patronId,
-                signature: personalNotificationSignature,
-                staffDeviceId: currentSignatureData.staffDeviceId,
-                documentType: DocumentTypes.HTPConfirmation
-            });
+    // Withdraw the agreement to a document (and every document after it)
+    const handleRevokeDocument = (index: number) => {
+        send({ type: 'REVOKE_DOCUMENT', index });
+        setDocumentSignature(null);
+        setSignedInFullScreen(false);
+        setDocumentStrokes(null);
+        setDocumentError(null);
+        setHasScrolledToBottom(false);
+    };
 
-            if (response) {
-                setHasAgreedToPersonalNotification(true);
-                setPersonalNotificationDialogOpen(false);
-                setPersonalNotificationSignature(null);
-                setCanvasSignature(personalNotificationSignature);
-            } else {
-                setPersonalNotificationError(t('Failed to submit signature'));
-            }
-        } catch (error) {
-            console.error('❌ Error submitting personal notification signature:', error);
-            setPersonalNotificationError(t('Failed to submit signature'));
-        } finally {
-            setIsSubmittingPersonalNotificationSignature(false);
-        }
+    // Title pushed by staff, or the workflow's localized title
+    const getDocumentTitle = (document: SessionDocument): string => {
+        return document.title || t(getWorkflowDocument(document.documentType)?.titleKey || 'ViewDocument');
     };
 
     const formatTimeLeft = (seconds: number): string => {
@@ -578,174 +667,104 @@ export default function SignatureConfirmation() {
         return `${mins}:${secs.toString().padStart(2, '0')}`;
     };
 
-    const handleNotificationSignatureChange = (signature: string | null) => {
-        setNotificationSignature(signature);
-        setNotificationError(null);
+    const handleDocumentSignatureChange = (signature: string | null) => {
+        setDocumentSignature(signature);
+        setDocumentError(null);
     };
 
-    const handlePersonalNotificationSignatureChange = (signature: string | null) => {
-        setPersonalNotificationSignature(signature);
-        setPersonalNotificationError(null);
+    const handleDocumentStrokesChange = (strokes: SignatureStrokes | null) => {
+        setDocumentStrokes(strokes);
     };
 
-    const handleTermsSignatureChange = (signature: string | null) => {
-        setTermsSignature(signature);
-        setTermsError(null);
+    const handleDrawingStart = () => {
+        reportProgress('drawing-started', { documentType: activeDocument?.documentType });
     };
 
-    const handleSubmitCanvasSignature = async () => {
-        if (!currentSignatureData || !canvasSignature) {
-            setSignatureError('Please provide your signature');
-            return;
-        }
-
-        // Check if first form is signed
-        const hasSignedFirstForm = currentPatronNationality === VIETNAM_COUNTRY_ID
-            ? hasAgreedToPersonalNotification
-            : hasAgreedToNotification;
-
-        if (!hasSignedFirstForm) {
-            setSignatureError(t("PleaseSignFirstFormBeforeTerms"));
-            return;
-        }
-
-        if (!hasAgreedToTerms) {
-            setSignatureError('Please read and agree to the Terms and Conditions');
-            return;
-        }
+    const handleFullScreenSignatureChange = (signature: string | null) => {
+        handleDocumentSignatureChange(signature);
+        setSignedInFullScreen(!!signature);
+    };
 
-        if (timeLeft !== null && timeLeft <= 0) {
-            setSignatureError('Signature request has expired');
-            return;
-        }
+    // Discard the full-screen signature and go back to the inline canvas
+    const handleSignAgain = () => {
+        setDocumentSignature(null);
+        setDocumentStrokes(null);
+        setSignedInFullScreen(false);
+        setDocumentError(null);
+    };
 
-        if (!currentSignatureData || !termsSignature) {
-            setTermsError(t('Please provide your signature'));
-            return;
-        }
+    const handleSubmitCanvasSignature = async () => {
+        const canSubmit = can({ type: 'SUBMIT' });
+        send({ type: 'SUBMIT' });
+        if (!canSubmit || !session.request) return;
 
-        // if (!hasScrolledToBottomTerms) {
-        //     setTermsError(t('Please scroll to the bottom to continue'));
-        //     return;
-        // }
+        const currentSignatureData = session.request;
+        // Documents submitted on agree, or stored by an earlier partly failed Submit, are already with the server
+        const pendingIndexes = session.documents
+            .map((doc, index) => ({ doc, index }))
+            .filter(({ doc }) => doc.submission === 'on-submit' && doc.agreed && doc.signature && !doc.stored)
+            .map(({ index }) => index);
 
-        setIsSubmittingSignature(true);
-        setSignatureError(null);
+        let queued = false;
 
         try {
-            const request: SignatureConfirmRequest = {
-                sessionId: currentSignatureData.sessionId,
-                patronId: currentSignatureData.patronId,
-                signature: termsSignature,
-                staffDeviceId: currentSignatureData.staffDeviceId,
-                documentType: DocumentTypes.HTRMembershipTerms
-            };
-
-            console.log('🔄 Submitting canvas signature:', request);
-
-            const response = await signatureApiService.submitSignature(request);
+            for (const index of pendingIndexes) {
+                const pendingDocument = session.documents[index];
+                const result = await submitDocumentSignature(index, pendingDocument.signature!, pendingDocument.strokes);
+
+                if (!result.success) {
+                    const errorMsg = result.message || 'Failed to submit signature';
+                    reportProgress('submit-failed', { documentType: pendingDocument.documentType, message: errorMsg });
+                    send({ type: 'SUBMIT_FAILED', error: errorMsg });
+                    handleSignatureError(errorMsg);
+                    return;
+                }
 
-            if (response && response.success) {
-                console.log('✅ Canvas signature submitted successfully:', response);
-                handleSignatureSubmitted(currentSignatureData.sessionId);
-                setSignatureDialogOpen(false);
-                setHasScrolledToBottomTerms(false);
-            } else {
-                const errorMsg = response?.message || 'Failed to submit signature';
-                setSignatureError(errorMsg);
-                handleSignatureError(errorMsg);
-                setHasScrolledToBottomTerms(false);
+                queued = queued || !!result.queued;
+                console.log(result.queued ? '📥 Document signature saved to outbox:' : '✅ Document signature submitted successfully:', pendingDocument.documentType);
             }
 
-        } catch (error) {
-            let errorMessage = 'Failed to submit signature';
+            reportProgress('submitted', queued ? { message: 'Saved offline, will be sent when the connection returns' } : {});
+            send({ type: 'SUBMIT_SUCCEEDED' });
+            handleSignatureSubmitted(currentSignatureData.sessionId);
 
-            if (error && typeof error === 'object' && 'message' in error) {
-                errorMessage = String((error as any).message);
-            } else if (typeof error === 'string') {
-                errorMessage = error;
-            }
+        } catch (error) {
+            // i18n key for the patron; the raw error goes to staff and the logs
+            const errorKey = getApiErrorMessageKey(error, 'Failed to submit signature');
 
             console.error('❌ Error submitting canvas signature:', error);
-            setSignatureError(errorMessage);
-            handleSignatureError(errorMessage);
+            reportProgress('submit-failed', { message: String(error) });
+            send({ type: 'SUBMIT_FAILED', error: errorKey });
+            handleSignatureError(t(errorKey));
         } finally {
-            setIsSubmittingSignature(false);
-            setHasScrolledToBottomTerms(false);
+            setHasScrolledToBottom(false);
         }
     };
 
     const handleCloseSignatureDialog = () => {
-        setHasScrolledToBottomTerms(false);
-        setHasAgreedToNotification(false);
-        setHasAgreedToPersonalNotification(false);
-        if (!isSubmittingSignature) {
-            setSignatureDialogOpen(false);
-            setCurrentSignatureData(null);
-
+        setHasScrolledToBottom(false);
+        if (isWithdrawn) {
+            setWithdrawnReason(null);
+            send({ type: 'RESET' });
+        } else if (!isSubmitting) {
+            send({ type: 'CANCEL' });
         }
     };
 
-    const isExpired = timeLeft !== null && timeLeft <= 0;
-
-    const handleSubmitTermsSignature = async () => {
-        if (!currentSignatureData || !termsSignature) {
-            setTermsError(t('Please provide your signature'));
-            return;
-        }
-
-        if (!hasScrolledToBottomTerms) {
-            setTermsError(t('Please scroll to the bottom to continue'));
-            return;
-        }
-
-        setIsSubmittingTermsSignature(true);
-        setTermsError(null);
-
-        try {
-            const request: SignatureConfirmRequest = {
-                sessionId: currentSignatureData.sessionId,
-                patronId: currentSignatureData.patronId,
-                signature: termsSignature,
-                staffDeviceId: currentSignatureData.staffDeviceId,
-                documentType: DocumentTypes.HTRMembershipTerms
-            };
-
-            console.log('🔄 Submitting terms signature:', request);
-
-            const response = await signatureApiService.submitSignature(request);
-
-            if (response && response.success) {
-                setHasAgreedToTerms(true);
-                setTermsDialogOpen(false);
-                setHasScrolledToBottomTerms(false);
-                setTermsSignature(null);
-                setConfirmedTermsSignature(null);
-                setTermsError(null);
-            } else {
-                const errorMsg = response?.message || t('Failed to submit signature');
-                setTermsError(errorMsg);
-            }
-        } catch (error) {
-            console.error('❌ Error submitting terms signature:', error);
-            setTermsError(t('Failed to submit signature'));
-        } finally {
-            setIsSubmittingTermsSignature(false);
-        }
-    };
+    const signatureError = session.error ? t(session.error) : reviewError ? t(reviewError) : null;
 
     // Debug logging for dialog rendering
     useEffect(() => {
-        if (signatureDialogOpen) {
+        if (isActive) {
             console.log('🔍 Dialog opened with:', {
+                status: session.status,
                 isLoadingHtml,
-                hasCurrentData: !!currentSignatureData,
+                hasCurrentData: !!session.request,
                 htmlContentLength: htmlContent?.length,
                 htmlContentPreview: htmlContent?.substring(0, 100)
             });
         }
-    }, [signatureDialogOpen, isLoadingHtml, currentSignatureData, htmlContent]);
-
+    }, [isActive, session.status, isLoadingHtml, session.request, htmlContent]);
     return (
         <MainLayout>
             {/* Network Status Alert */}
@@ -761,128 +780,132 @@ export default function SignatureConfirmation() {
                 flexDirection: 'column',
                 bgcolor: '#f5f7fa'
             }}>
-                {/* Welcome Banner */}
-                <Box sx={{
-                    background: 'linear-gradient(135deg, #274549 0%, #1a3033 100%)',
-                    color: 'white',
-                    py: { xs: 6, md: 8 },
-                    px: 3,
-                    textAlign: 'center',
-                    position: 'relative',
-                    overflow: 'hidden',
-                    boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
-                    '&::before': {
-                        content: '""',
-                        position: 'absolute',
-                        top: 0,
-                        left: 0,
-                        right: 0,
-                        bottom: 0,
-                        background: 'url(/images/TheGrandHoTram.png)',
-                        backgroundSize: 'cover',
-                        backgroundPosition: 'center',
-                        opacity: 0.1,
-                        zIndex: 0
-                    }
-                }}>
-                    <Box sx={{ position: 'relative', zIndex: 1, maxWidth: 800, mx: 'auto' }}>
-                        <Box sx={{
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            gap: 2,
-                            mb: 2
-                        }}>
-                            {/* <Hotel sx={{ fontSize: { xs: 40, md: 56 } }} /> */}
-                            <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
-                            <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
-                            <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
-                            <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
-                            <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
-                        </Box>
-
-                        <Typography
-                            variant="h2"
-                            sx={{
-                                fontWeight: 700,
-                                fontSize: { xs: '2rem', md: '2rem' },
-                                mb: 2,
-                                textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
-                                letterSpacing: '0.5px'
-                            }}
-                        >
-                            {t("WelcomeToTheGrandHoTram") || "Welcome to The Grand Hồ Tràm"}
-                        </Typography>
+                {/* Standby screen between patrons, otherwise the Welcome Banner */}
+                {showStandby ? (
+                    <StandbyScreen settings={standbySettings} />
+                ) : (
+                    <Box sx={{
+                        background: 'linear-gradient(135deg, #274549 0%, #1a3033 100%)',
+                        color: 'white',
+                        py: { xs: 6, md: 8 },
+                        px: 3,
+                        textAlign: 'center',
+                        position: 'relative',
+                        overflow: 'hidden',
+                        boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
+                        '&::before': {
+                            content: '""',
+                            position: 'absolute',
+                            top: 0,
+                            left: 0,
+                            right: 0,
+                            bottom: 0,
+                            background: 'url(/images/TheGrandHoTram.png)',
+                            backgroundSize: 'cover',
+                            backgroundPosition: 'center',
+                            opacity: 0.1,
+                            zIndex: 0
+                        }
+                    }}>
+                        <Box sx={{ position: 'relative', zIndex: 1, maxWidth: 800, mx: 'auto' }}>
+                            <Box sx={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                gap: 2,
+                                mb: 2
+                            }}>
+                                {/* <Hotel sx={{ fontSize: { xs: 40, md: 56 } }} /> */}
+                                <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
+                                <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
+                                <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
+                                <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
+                                <Stars sx={{ fontSize: { xs: 32, md: 40 }, color: '#ffd700' }} />
+                            </Box>
 
-                        <Typography
-                            variant="h5"
-                            sx={{
-                                fontWeight: 300,
-                                fontSize: { xs: '2rem', md: '1.5rem' },
-                                mb: 3,
-                                opacity: 0.95,
-                                lineHeight: 1.6
-                            }}
-                        >
-                            {t("SignatureConfirmationSystem") || "Digital Signature Confirmation System"}
-                        </Typography>
+                            <Typography
+                                variant="h2"
+                                sx={{
+                                    fontWeight: 700,
+                                    fontSize: { xs: '2rem', md: '2rem' },
+                                    mb: 2,
+                                    textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
+                                    letterSpacing: '0.5px'
+                                }}
+                            >
+                                {t("WelcomeToTheGrandHoTram") || "Welcome to The Grand Hồ Tràm"}
+                            </Typography>
 
-                        <Box sx={{
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            gap: 2,
-                            flexWrap: 'wrap'
-                        }}>
-                            {/* <Typography variant="h5"
+                            <Typography
+                                variant="h5"
                                 sx={{
                                     fontWeight: 300,
-                                    fontSize: { xs: '1.1rem', md: '1.5rem' },
+                                    fontSize: { xs: '2rem', md: '1.5rem' },
                                     mb: 3,
                                     opacity: 0.95,
                                     lineHeight: 1.6
-                                }}>
-                                {t("LuxuryResortExperience") || "Luxury Resort Experience"}
-                            </Typography> */}
-                            {/* {isReady && (
-                                <Chip 
-                                    icon={<CheckCircle />}
-                                    label={t("SystemReady") || "System Ready"}
-                                    sx={{ 
-                                        bgcolor: 'rgba(76, 175, 80, 0.9)',
-                                        color: 'white',
-                                        backdropFilter: 'blur(10px)',
-                                        fontWeight: 500,
-                                        fontSize: '0.9rem',
-                                        py: 2.5,
-                                        px: 1
-                                    }}
-                                />
-                            )} */}
-                        </Box>
+                                }}
+                            >
+                                {t("SignatureConfirmationSystem") || "Digital Signature Confirmation System"}
+                            </Typography>
 
-                        {!isReady && (
-                            <Box sx={{ mt: 4 }}>
-                                <Typography variant="body1" sx={{ mb: 2, opacity: 0.9 }}>
-                                    {stepDescriptions[currentStep as keyof typeof stepDescriptions]}
-                                </Typography>
-                                <LinearProgress
-                                    variant="determinate"
-                                    value={stepProgress[currentStep as keyof typeof stepProgress]}
+                            <Box sx={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                gap: 2,
+                                flexWrap: 'wrap'
+                            }}>
+                                {/* <Typography variant="h5"
                                     sx={{
-                                        height: 8,
-                                        borderRadius: 4,
-                                        bgcolor: 'rgba(255,255,255,0.2)',
-                                        '& .MuiLinearProgress-bar': {
-                                            bgcolor: 'white',
-                                            borderRadius: 4
-                                        }
-                                    }}
-                                />
+                                        fontWeight: 300,
+                                        fontSize: { xs: '1.1rem', md: '1.5rem' },
+                                        mb: 3,
+                                        opacity: 0.95,
+                                        lineHeight: 1.6
+                                    }}>
+                                    {t("LuxuryResortExperience") || "Luxury Resort Experience"}
+                                </Typography> */}
+                                {/* {isReady && (
+                                    <Chip 
+                                        icon={<CheckCircle />}
+                                        label={t("SystemReady") || "System Ready"}
+                                        sx={{ 
+                                            bgcolor: 'rgba(76, 175, 80, 0.9)',
+                                            color: 'white',
+                                            backdropFilter: 'blur(10px)',
+                                            fontWeight: 500,
+                                            fontSize: '0.9rem',
+                                            py: 2.5,
+                                            px: 1
+                                        }}
+                                    />
+                                )} */}
                             </Box>
-                        )}
+
+                            {!isReady && (
+                                <Box sx={{ mt: 4 }}>
+                                    <Typography variant="body1" sx={{ mb: 2, opacity: 0.9 }}>
+                                        {stepDescriptions[currentStep as keyof typeof stepDescriptions]}
+                                    </Typography>
+                                    <LinearProgress
+                                        variant="determinate"
+                                        value={stepProgress[currentStep as keyof typeof stepProgress]}
+                                        sx={{
+                                            height: 8,
+                                            borderRadius: 4,
+                                            bgcolor: 'rgba(255,255,255,0.2)',
+                                            '& .MuiLinearProgress-bar': {
+                                                bgcolor: 'white',
+                                                borderRadius: 4
+                                            }
+                                        }}
+                                    />
+                                </Box>
+                            )}
+                        </Box>
                     </Box>
-                </Box>
+                )}
 
                 {/* Main Content Area */}
                 <Box sx={{
@@ -896,7 +919,13 @@ export default function SignatureConfirmation() {
                     gap: 3
                 }}>
                     {/* Status Card */}
-                    {isReady ? (
+                    {showStandby ? (
+                        outboxPendingCount > 0 && (
+                            <Alert severity="info" icon={<CloudUpload />} sx={{ maxWidth: 600, width: '100%', textAlign: 'left' }}>
+                                {t("SignatureSavedWillBeSent")}
+                            </Alert>
+                        )
+                    ) : isReady ? (
                         <Card
                             elevation={0}
                             sx={{
@@ -913,6 +942,12 @@ export default function SignatureConfirmation() {
                             <Typography variant="h6" sx={{ fontWeight: 500, color: '#274549', mb: 2 }}>
                                 {t("WaitingForSignatureRequest") || "Waiting for Signature Request"}
                             </Typography>
+
+                            {outboxPendingCount > 0 && (
+                                <Alert severity="info" icon={<CloudUpload />} sx={{ mt: 2, textAlign: 'left' }}>
+                                    {t("SignatureSavedWillBeSent")}
+                                </Alert>
+                            )}
                         </Card>
                     ) : (
                         <Card
@@ -1193,7 +1228,7 @@ export default function SignatureConfirmation() {
 
                 {/* Signature Dialog with Canvas */}
                 <Dialog
-                    open={signatureDialogOpen}
+                    open={isActive}
                     onClose={(_event, reason) => {
                         // Only allow closing via button clicks, not backdrop or escape key
                         if (reason === 'backdropClick' || reason === 'escapeKeyDown') {
@@ -1204,7 +1239,7 @@ export default function SignatureConfirmation() {
                     maxWidth="lg"
                     fullWidth
                     fullScreen={isMobile}
-                    disableEscapeKeyDown={isSubmittingSignature}
+                    disableEscapeKeyDown={isSubmitting}
                     PaperProps={{
                         sx: {
                             height: isMobile ? '90vh' : '90vh',
@@ -1228,7 +1263,7 @@ export default function SignatureConfirmation() {
                         </Box>
                         <Button
                             onClick={handleCloseSignatureDialog}
-                            disabled={isSubmittingSignature}
+                            disabled={isSubmitting}
                             sx={{
                                 minWidth: 'auto',
                                 p: 1,
@@ -1250,14 +1285,37 @@ export default function SignatureConfirmation() {
                         overflow: 'hidden',
                         flex: 1
                     }}>
-                        {isLoadingHtml ? (
+                        {isWithdrawn ? (
+                            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', flex: 1, textAlign: 'center', p: 3 }}>
+                                <CancelScheduleSend sx={{ fontSize: 72, color: '#274549', mb: 2 }} />
+                                <Typography variant="h5" sx={{ fontWeight: 600, color: '#274549', mb: 1 }}>
+                                    {t("RequestWithdrawnByStaff")}
+                                </Typography>
+                                <Typography variant="body1" color="text.secondary" sx={{ mb: 1 }}>
+                                    {t("RequestWithdrawnDescription")}
+                                </Typography>
+                                {withdrawnReason && (
+                                    <Typography variant="body2" color="text.secondary" sx={{ mb: 3, fontStyle: 'italic' }}>
+                                        {withdrawnReason}
+                                    </Typography>
+                                )}
+                                <Button
+                                    onClick={handleCloseSignatureDialog}
+                                    variant="contained"
+                                    size="large"
+                                    sx={{ mt: 2, backgroundColor: '#274549', minWidth: 140, '&:hover': { backgroundColor: '#1a3033' } }}
+                                >
+                                    {t("Close")}
+                                </Button>
+                            </Box>
+                        ) : isLoadingHtml ? (
                             <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', flex: 1 }}>
                                 <Typography variant="h6" color="text.secondary" sx={{ mb: 3 }}>
                                     {t("LoadingDocument")}
                                 </Typography>
                                 <LinearProgress sx={{ width: '60%' }} />
                             </Box>
-                        ) : currentSignatureData ? (
+                        ) : session.request ? (
                             <>
                                 {/* Full Screen Scrollable HTML Content Area */}
                                 <Box sx={{
@@ -1315,208 +1373,104 @@ export default function SignatureConfirmation() {
                                             {t("RequiredAgreements")}
                                         </Typography>
 
-                                        {/* 1. Personal Notification Checkbox - For Vietnamese */}
-                                        {currentPatronNationality === VIETNAM_COUNTRY_ID && (
-                                            <Box sx={{
-                                                p: 2,
-                                                border: '1px solid #e0e0e0',
-                                                borderRadius: 1,
-                                                bgcolor: hasAgreedToPersonalNotification ? '#e8f5e9' : 'white'
-                                            }}>
-                                                <FormControlLabel
-                                                    control={
-                                                        <Checkbox
-                                                            checked={hasAgreedToPersonalNotification}
-                                                            onChange={(e) => {
-                                                                if (e.target.checked) {
-                                                                    loadPersonalNotification();
-                                                                } else {
-                                                                    setHasAgreedToPersonalNotification(false);
-                                                                    setNotificationDialogOpen(false);
-                                                                    setCanvasSignature(null);
-                                                                    setHasScrolledToBottomTerms(false);
-                                                                }
-                                                            }}
-                                                            sx={{
-                                                                color: '#274549',
-                                                                '&.Mui-checked': {
-                                                                    color: '#4caf50'
-                                                                }
-                                                            }}
-                                                        />
-                                                    }
-                                                    label={
-                                                        <Box>
-                                                            <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                                                {t("IAgreeToThePersonalNotification")}
-                                                            </Typography>
-                                                            <Button
-                                                                onClick={() => loadPersonalNotification()}
-                                                                sx={{
-                                                                    textTransform: 'none',
-                                                                    p: 0,
-                                                                    minWidth: 'auto',
-                                                                    color: '#274549',
-                                                                    textDecoration: 'underline',
-                                                                    fontSize: '0.9rem',
-                                                                    '&:hover': {
-                                                                        bgcolor: 'transparent',
-                                                                        textDecoration: 'underline'
-                                                                    }
-                                                                }}
+                                        {/* Progress through the document queue */}
+                                        {session.documents.length > 1 && (
+                                            <Box>
+                                                <Typography variant="body2" sx={{ color: '#274549', fontWeight: 600, mb: 1 }}>
+                                                    {t("DocumentProgress", documentProgress)}
+                                                </Typography>
+                                                <Stepper activeStep={documentProgress.current - 1} alternativeLabel={!isMobile}>
+                                                    {session.documents.map((sessionDocument) => (
+                                                        <Step
+                                                            key={sessionDocument.documentType}
+                                                            completed={sessionDocument.agreed}
+                                                        >
+                                                            <StepLabel
+                                                                optional={!sessionDocument.required ? (
+                                                                    <Typography variant="caption">{t("Optional")}</Typography>
+                                                                ) : undefined}
                                                             >
-                                                                ({t("ViewDocument")})
-                                                            </Button>
-                                                        </Box>
-                                                    }
-                                                />
+                                                                {getDocumentTitle(sessionDocument)}
+                                                            </StepLabel>
+                                                        </Step>
+                                                    ))}
+                                                </Stepper>
                                             </Box>
                                         )}
 
-                                        {/* 2. Notification Checkbox - For Non-Vietnamese */}
-                                        {currentPatronNationality !== VIETNAM_COUNTRY_ID && (
-                                            <Box sx={{
-                                                p: 2,
-                                                border: '1px solid #e0e0e0',
-                                                borderRadius: 1,
-                                                bgcolor: hasAgreedToNotification ? '#e8f5e9' : 'white'
-                                            }}>
-                                                <FormControlLabel
-                                                    control={
-                                                        <Checkbox
-                                                            checked={hasAgreedToNotification}
-                                                            onChange={(e) => {
-                                                                if (e.target.checked) {
-                                                                    loadNotification();
-                                                                } else {
-                                                                    setHasAgreedToNotification(false);
-                                                                    setNotificationDialogOpen(false);
-                                                                    setCanvasSignature(null);
-                                                                    setHasScrolledToBottomTerms(false);
-                                                                }
-                                                            }}
-                                                            sx={{
-                                                                color: '#274549',
-                                                                '&.Mui-checked': {
-                                                                    color: '#4caf50'
-                                                                }
-                                                            }}
-                                                        />
-                                                    }
-                                                    label={
-                                                        <Box>
-                                                            <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                                                {t("IAgreeToTheNotificationOnPersonalDataProtection")}
-                                                            </Typography>
-                                                            <Button
-                                                                onClick={() => loadNotification()}
+                                        {/* One checkbox per document, in signing order */}
+                                        {session.documents.map((sessionDocument, index) => {
+                                            const workflowDocument = getWorkflowDocument(sessionDocument.documentType);
+                                            const isBlocked = isDocumentBlocked(session, index);
+
+                                            return (
+                                                <Box
+                                                    key={sessionDocument.documentType}
+                                                    sx={{
+                                                        p: 2,
+                                                        border: '1px solid #e0e0e0',
+                                                        borderRadius: 1,
+                                                        bgcolor: sessionDocument.agreed ? '#e8f5e9' : 'white',
+                                                        opacity: isBlocked ? 0.5 : 1
+                                                    }}
+                                                >
+                                                    <FormControlLabel
+                                                        control={
+                                                            <Checkbox
+                                                                checked={sessionDocument.agreed}
+                                                                onChange={(e) => {
+                                                                    if (e.target.checked) {
+                                                                        loadDocument(index);
+                                                                    } else {
+                                                                        handleRevokeDocument(index);
+                                                                    }
+                                                                }}
+                                                                disabled={isBlocked}
                                                                 sx={{
-                                                                    textTransform: 'none',
-                                                                    p: 0,
-                                                                    minWidth: 'auto',
                                                                     color: '#274549',
-                                                                    textDecoration: 'underline',
-                                                                    fontSize: '0.9rem',
-                                                                    '&:hover': {
-                                                                        bgcolor: 'transparent',
-                                                                        textDecoration: 'underline'
+                                                                    '&.Mui-checked': {
+                                                                        color: '#4caf50'
                                                                     }
                                                                 }}
-                                                            >
-                                                                ({t("ViewDocument")})
-                                                            </Button>
-                                                        </Box>
-                                                    }
-                                                />
-                                            </Box>
-                                        )}
-
-                                        {/* 3. Terms and Conditions Checkbox */}
-                                        <Box sx={{
-                                            p: 2,
-                                            border: '1px solid #e0e0e0',
-                                            borderRadius: 1,
-                                            bgcolor: hasAgreedToTerms ? '#e8f5e9' : 'white',
-                                            opacity: (currentPatronNationality === VIETNAM_COUNTRY_ID && !hasAgreedToPersonalNotification) ||
-                                                (currentPatronNationality !== VIETNAM_COUNTRY_ID && !hasAgreedToNotification) ? 0.5 : 1
-                                        }}>
-                                            <FormControlLabel
-                                                control={
-                                                    <Checkbox
-                                                        checked={hasAgreedToTerms}
-                                                        onChange={(e) => {
-                                                            // Check if first form is signed
-                                                            const hasSignedFirstForm = currentPatronNationality === VIETNAM_COUNTRY_ID
-                                                                ? hasAgreedToPersonalNotification
-                                                                : hasAgreedToNotification;
-
-                                                            if (!hasSignedFirstForm) {
-                                                                setSignatureError(t("PleaseSignFirstFormBeforeTerms"));
-                                                                return;
-                                                            }
-
-                                                            if (e.target.checked) {
-                                                                loadTermsAndConditions();
-                                                            } else {
-                                                                setHasAgreedToTerms(false);
-                                                                setConfirmedTermsSignature(null);
-                                                                setTermsSignature(null);
-                                                            }
-                                                        }}
-                                                        disabled={(currentPatronNationality === VIETNAM_COUNTRY_ID && !hasAgreedToPersonalNotification) ||
-                                                            (currentPatronNationality !== VIETNAM_COUNTRY_ID && !hasAgreedToNotification)}
-                                                        sx={{
-                                                            color: '#274549',
-                                                            '&.Mui-checked': {
-                                                                color: '#4caf50'
-                                                            }
-                                                        }}
-                                                    />
-                                                }
-                                                label={
-                                                    <Box>
-                                                        <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                                            {t("IAgreeToTheTermsAndConditions")}
-                                                        </Typography>
-                                                        <Button
-                                                            onClick={() => {
-                                                                const hasSignedFirstForm = currentPatronNationality === VIETNAM_COUNTRY_ID
-                                                                    ? hasAgreedToPersonalNotification
-                                                                    : hasAgreedToNotification;
-
-                                                                if (!hasSignedFirstForm) {
-                                                                    setSignatureError(t("PleaseSignFirstFormBeforeTerms"));
-                                                                    return;
-                                                                }
-                                                                loadTermsAndConditions();
-                                                            }}
-                                                            disabled={(currentPatronNationality === VIETNAM_COUNTRY_ID && !hasAgreedToPersonalNotification) ||
-                                                                (currentPatronNationality !== VIETNAM_COUNTRY_ID && !hasAgreedToNotification)}
-                                                            sx={{
-                                                                textTransform: 'none',
-                                                                p: 0,
-                                                                minWidth: 'auto',
-                                                                color: '#274549',
-                                                                textDecoration: 'underline',
-                                                                fontSize: '0.9rem',
-                                                                '&:hover': {
-                                                                    bgcolor: 'transparent',
-                                                                    textDecoration: 'underline'
-                                                                }
-                                                            }}
-                                                        >
-                                                            ({t("ViewDocument")})
-                                                        </Button>
-                                                        {((currentPatronNationality === VIETNAM_COUNTRY_ID && !hasAgreedToPersonalNotification) ||
-                                                            (currentPatronNationality !== VIETNAM_COUNTRY_ID && !hasAgreedToNotification)) && (
-                                                                <Typography variant="caption" sx={{ display: 'block', color: 'error.main', mt: 0.5 }}>
-                                                                    {t("PleaseSignFirstFormBeforeTerms")}
+                                                            />
+                                                        }
+                                                        label={
+                                                            <Box>
+                                                                <Typography variant="body1" sx={{ fontWeight: 600 }}>
+                                                                    {sessionDocument.title
+                                                                        ? sessionDocument.title
+                                                                        : t(workflowDocument?.agreementKey || 'ViewDocument')}
+                                                                    {!sessionDocument.required && ` (${t("Optional")})`}
                                                                 </Typography>
-                                                            )}
-                                                    </Box>
-                                                }
-                                            />
-                                        </Box>
+                                                                <Button
+                                                                    onClick={() => loadDocument(index)}
+                                                                    disabled={isBlocked}
+                                                                    sx={{
+                                                                        textTransform: 'none',
+                                                                        p: 0,
+                                                                        minWidth: 'auto',
+                                                                        color: '#274549',
+                                                                        textDecoration: 'underline',
+                                                                        fontSize: '0.9rem',
+                                                                        '&:hover': {
+                                                                            bgcolor: 'transparent',
+                                                                            textDecoration: 'underline'
+                                                                        }
+                                                                    }}
+                                                                >
+                                                                    ({t("ViewDocument")})
+                                                                </Button>
+                                                                {isBlocked && (
+                                                                    <Typography variant="caption" sx={{ display: 'block', color: 'error.main', mt: 0.5 }}>
+                                                                        {t("PleaseSignPreviousDocumentsFirst")}
+                                                                    </Typography>
+                                                                )}
+                                                            </Box>
+                                                        }
+                                                    />
+                                                </Box>
+                                            );
+                                        })}
                                     </Box>
 
                                     {/* Error Display */}
@@ -1532,7 +1486,7 @@ export default function SignatureConfirmation() {
                                             onClick={() => {
                                                 handleCloseSignatureDialog();
                                             }}
-                                            disabled={isSubmittingSignature}
+                                            disabled={isSubmitting}
                                             variant="outlined"
                                             size="large"
                                             sx={{
@@ -1549,13 +1503,7 @@ export default function SignatureConfirmation() {
                                         </Button>
                                         <Button
                                             onClick={handleSubmitCanvasSignature}
-                                            disabled={
-                                                isSubmittingSignature ||
-                                                !hasAgreedToTerms ||
-                                                isExpired ||
-                                                (currentPatronNationality === VIETNAM_COUNTRY_ID && !hasAgreedToPersonalNotification) ||
-                                                (currentPatronNationality !== VIETNAM_COUNTRY_ID && !hasAgreedToNotification)
-                                            }
+                                            disabled={isSubmitting || !can({ type: 'SUBMIT' })}
                                             variant="contained"
                                             size="large"
                                             startIcon={<Send />}
@@ -1567,7 +1515,7 @@ export default function SignatureConfirmation() {
                                                 }
                                             }}
                                         >
-                                            {isSubmittingSignature ? t("Submitting") : t("SubmitSignature")}
+                                            {isSubmitting ? t("Submitting") : t("SubmitSignature")}
                                         </Button>
                                     </Box>
                                 </Box>
@@ -1576,18 +1524,14 @@ export default function SignatureConfirmation() {
                     </DialogContent>
                 </Dialog>
 
-                {/* Terms and Conditions Dialog */}
+                {/* Document Dialog - renders whichever workflow document is open */}
                 <Dialog
-                    open={termsDialogOpen}
+                    open={!!activeDocument}
                     onClose={(_event, reason) => {
                         if (reason === 'backdropClick' || reason === 'escapeKeyDown') {
                             return;
                         }
-                        setTermsDialogOpen(false);
-                        setHasScrolledToBottomTerms(false);
-                        // Restore confirmed signature when closing without agreeing
-                        setTermsSignature(confirmedTermsSignature);
-                        setTermsError(null);
+                        handleCloseDocument();
                     }}
                     maxWidth="md"
                     fullWidth
@@ -1613,16 +1557,10 @@ export default function SignatureConfirmation() {
                     }}>
                         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                             <Description />
-                            <Typography variant="h6">{t("TermsAndConditions")}</Typography>
+                            <Typography variant="h6">{activeDocument ? getDocumentTitle(activeDocument) : ''}</Typography>
                         </Box>
                         <Button
-                            onClick={() => {
-                                setTermsDialogOpen(false);
-                                setHasScrolledToBottomTerms(false);
-                                // Restore confirmed signature when closing without agreeing
-                                setTermsSignature(confirmedTermsSignature);
-                                setTermsError(null);
-                            }}
+                            onClick={handleCloseDocument}
                             sx={{
                                 minWidth: 'auto',
                                 p: 1,
@@ -1637,7 +1575,7 @@ export default function SignatureConfirmation() {
                     </DialogTitle>
 
                     <DialogContent
-                        onScroll={handleTermsScroll}
+                        onScroll={handleDocumentScroll}
                         sx={{
                             pt: 2,
                             pb: 2,
@@ -1647,67 +1585,106 @@ export default function SignatureConfirmation() {
                             flexDirection: 'column'
                         }}
                     >
-                        {isLoadingTerms ? (
+                        {isLoadingDocument ? (
                             <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', flex: 1 }}>
                                 <Typography variant="h6" color="text.secondary" sx={{ mb: 3 }}>
-                                    {t("LoadingTermsAndConditions")}
+                                    {t("LoadingDocument")}
                                 </Typography>
                                 <LinearProgress sx={{ width: '60%' }} />
                             </Box>
                         ) : (
-                            <Box
-                                sx={{
-                                    wordSpacing: '0.15em',
-                                    p: 3,
-                                    border: '1px solid #e0e0e0',
-                                    borderRadius: 2,
-                                    bgcolor: 'background.paper',
-                                    '& img': {
-                                        maxWidth: '100%',
-                                        height: 'auto'
-                                    },
-                                    '& table': {
-                                        width: '100%',
-                                        borderCollapse: 'collapse'
-                                    },
-                                    '& td, & th': {
-                                        padding: '12px',
-                                        border: '1px solid #e0e0e0'
-                                    },
-                                    '& th': {
-                                        bgcolor: '#f5f5f5',
-                                        fontWeight: 'bold'
-                                    }
-                                }}
-                                dangerouslySetInnerHTML={{ __html: termsContent }}
-                            />
-                        )}
-
-                        {!isLoadingTerms && (
-                            <Box sx={{ mt: 3 }}>
-                                <Box sx={{
-                                    p: 2,
-                                    border: '2px solid #274549',
-                                    borderRadius: 2,
-                                    bgcolor: '#f9f9f9'
-                                }}>
-                                    <Typography variant="h6" sx={{ mb: 2, color: '#274549', fontWeight: 600 }}>
-                                        ✍️ {t("PleaseSignBelow")}
-                                    </Typography>
-                                    <SignatureCanvas
-                                        width={isMobile ? 340 : 600}
-                                        height={isMobile ? 120 : 180}
-                                        onSignatureChange={handleTermsSignatureChange}
-                                        disabled={isSubmittingTermsSignature}
-                                    />
-                                </Box>
-                                {termsError && (
-                                    <Alert severity="error" sx={{ mt: 2 }}>
-                                        {termsError}
-                                    </Alert>
-                                )}
-                            </Box>
-                        )}
+                            <>
+                                <Box
+                                    sx={{
+                                        wordSpacing: '0.15em',
+                                        p: 3,
+                                        border: '1px solid #e0e0e0',
+                                        borderRadius: 2,
+                                        bgcolor: 'background.paper',
+                                        mb: 3,
+                                        '& img': {
+                                            maxWidth: '100%',
+                                            height: 'auto'
+                                        },
+                                        '& table': {
+                                            width: '100%',
+                                            borderCollapse: 'collapse'
+                                        },
+                                        '& td, & th': {
+                                            padding: '12px',
+                                            border: '1px solid #e0e0e0'
+                                        },
+                                        '& th': {
+                                            bgcolor: '#f5f5f5',
+                                            fontWeight: 'bold'
+                                        }
+                                    }}
+                                    dangerouslySetInnerHTML={{ __html: documentContent }}
+                                />
+
+                                {/* Signature Canvas for the document */}
+                                {activeWorkflowDocument?.requiresSignature && (
+                                    <Box sx={{
+                                        p: 2,
+                                        border: '2px solid #274549',
+                                        borderRadius: 2,
+                                        bgcolor: '#f9f9f9'
+                                    }}>
+                                        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                                            <Typography variant="h6" sx={{ color: '#274549', fontWeight: 600 }}>
+                                                ✍️ {t("PleaseSignBelow")}
+                                            </Typography>
+                                            <Button
+                                                variant="outlined"
+                                                size="small"
+                                                startIcon={<Fullscreen />}
+                                                onClick={() => setIsFullScreenSigning(true)}
+                                                disabled={isSubmittingDocument}
+                                                sx={{ color: '#274549', borderColor: '#274549' }}
+                                            >
+                                                {t("SignFullScreen")}
+                                            </Button>
+                                        </Box>
+                                        {signedInFullScreen && documentSignature ? (
+                                            <Box sx={{ textAlign: 'center' }}>
+                                                <Box
+                                                    component="img"
+                                                    src={documentSignature}
+                                                    alt={t("YourSignature")}
+                                                    sx={{ maxWidth: '100%', maxHeight: 240, border: '1px solid #ddd', borderRadius: 1, bgcolor: '#ffffff' }}
+                                                />
+                                                <Box>
+                                                    <Button
+                                                        size="small"
+                                                        startIcon={<Edit />}
+                                                        onClick={handleSignAgain}
+                                                        disabled={isSubmittingDocument}
+                                                        sx={{ mt: 1 }}
+                                                    >
+                                                        {t("SignAgain")}
+                                                    </Button>
+                                                </Box>
+                                            </Box>
+                                        ) : (
+                                            <SignatureCanvas
+                                                width={isMobile ? 340 : 600}
+                                                height={isMobile ? 120 : 180}
+                                                onSignatureChange={handleDocumentSignatureChange}
+                                                onStrokesChange={handleDocumentStrokesChange}
+                                                onDrawingStart={handleDrawingStart}
+                                                disabled={isSubmittingDocument}
+                                            />
+                                        )}
+                                    </Box>
+                                )}
+
+                                {documentError && (
+                                    <Alert severity="error" sx={{ mt: 2 }}>
+                                        {documentError}
+                                    </Alert>
+                                )}
+                            </>
+                        )}
                     </DialogContent>
 
                     <DialogActions sx={{
@@ -1718,7 +1695,7 @@ export default function SignatureConfirmation() {
                         alignItems: 'stretch',
                         gap: 1
                     }}>
-                        {!hasScrolledToBottomTerms && !isLoadingTerms && (
+                        {mustScrollDocument && !isLoadingDocument && (
                             <Typography
                                 variant="caption"
                                 sx={{
@@ -1737,13 +1714,9 @@ export default function SignatureConfirmation() {
                         <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
                             <Button
                                 onClick={() => {
-                                    setTermsDialogOpen(false);
-                                    setHasScrolledToBottomTerms(false);
-                                    setHasAgreedToTerms(false);
-                                    // Restore confirmed signature when canceling
-                                    setTermsSignature(null);
-                                    setConfirmedTermsSignature(null);
-                                    setTermsError(null);
+                                    if (session.activeIndex !== null) {
+                                        handleRevokeDocument(session.activeIndex);
+                                    }
                                 }}
                                 variant="outlined"
                                 sx={{
@@ -1758,10 +1731,15 @@ export default function SignatureConfirmation() {
                                 {t("CancelSignature")}
                             </Button>
                             <Button
-                                onClick={handleAgreeToTerms}
+                                onClick={handleAgreeToDocument}
                                 variant="contained"
-                                disabled={isLoadingTerms || !hasScrolledToBottomTerms || isSubmittingTermsSignature || !termsSignature}
-                                startIcon={<CheckCircle />}
+                                disabled={
+                                    isLoadingDocument ||
+                                    isSubmittingDocument ||
+                                    mustScrollDocument ||
+                                    (!!activeWorkflowDocument?.requiresSignature && !documentSignature)
+                                }
+                                startIcon={isSubmittingDocument ? <CircularProgress size={16} /> : <CheckCircle />}
                                 sx={{
                                     backgroundColor: '#274549',
                                     '&:hover': {
@@ -1773,367 +1751,22 @@ export default function SignatureConfirmation() {
                                     }
                                 }}
                             >
-                                {t("AgreeAndContinue")}
+                                {isSubmittingDocument ? t("Submitting") : t("SignAndAgree")}
                             </Button>
                         </Box>
                     </DialogActions>
                 </Dialog>
 
-                {/* Notification Dialog */}
-                <Dialog
-                    open={notificationDialogOpen}
-                    onClose={(_event, reason) => {
-                        if (reason === 'backdropClick' || reason === 'escapeKeyDown') {
-                            return;
-                        }
-                        setNotificationDialogOpen(false);
-                        // setNotificationSignature(null);
-                        // setNotificationError(null);
-                    }}
-                    maxWidth="md"
-                    fullWidth
-                    fullScreen={isMobile}
-                    PaperProps={{
-                        sx: {
-                            height: isMobile ? '95vh' : '80vh',
-                            maxHeight: isMobile ? '95vh' : '80vh',
-                            display: 'flex',
-                            flexDirection: 'column',
-                            m: isMobile ? 0 : 2
-                        }
-                    }}
-                >
-                    <DialogTitle sx={{
-                        pb: 1,
-                        flexShrink: 0,
-                        display: 'flex',
-                        justifyContent: 'space-between',
-                        alignItems: 'center',
-                        bgcolor: '#274549',
-                        color: 'white'
-                    }}>
-                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                            <Description />
-                            <Typography variant="h6">{t("NotificationOnPersonalDataProtection")}</Typography>
-                        </Box>
-                        <Button
-                            onClick={() => {
-                                setNotificationDialogOpen(false);
-                                setNotificationSignature(null);
-                                setNotificationError(null);
-                                // setCanvasSignature(null);
-                                // setHasScrolledToBottomTerms(false);
-                                // setHasAgreedToNotification(false);
-                                // setHasAgreedToPersonalNotification(false);
-                            }}
-                            sx={{
-                                minWidth: 'auto',
-                                p: 1,
-                                color: 'white',
-                                '&:hover': {
-                                    bgcolor: 'rgba(255, 255, 255, 0.1)'
-                                }
-                            }}
-                        >
-                            <Close />
-                        </Button>
-                    </DialogTitle>
-
-                    <DialogContent sx={{
-                        pt: 2,
-                        pb: 2,
-                        flex: 1,
-                        overflow: 'auto',
-                        display: 'flex',
-                        flexDirection: 'column'
-                    }}>
-                        {isLoadingNotification ? (
-                            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', flex: 1 }}>
-                                <Typography variant="h6" color="text.secondary" sx={{ mb: 3 }}>
-                                    {t("LoadingDocument")}
-                                </Typography>
-                                <LinearProgress sx={{ width: '60%' }} />
-                            </Box>
-                        ) : (
-                            <>
-                                <Box
-                                    sx={{
-                                        wordSpacing: '0.15em',
-                                        p: 3,
-                                        border: '1px solid #e0e0e0',
-                                        borderRadius: 2,
-                                        bgcolor: 'background.paper',
-                                        mb: 3,
-                                        '& img': {
-                                            maxWidth: '100%',
-                                            height: 'auto'
-                                        },
-                                        '& table': {
-                                            width: '100%',
-                                            borderCollapse: 'collapse'
-                                        },
-                                        '& td, & th': {
-                                            padding: '12px',
-                                            border: '1px solid #e0e0e0'
-                                        },
-                                        '& th': {
-                                            bgcolor: '#f5f5f5',
-                                            fontWeight: 'bold'
-                                        }
-                                    }}
-                                    dangerouslySetInnerHTML={{ __html: notificationContent }}
-                                />
-
-                                {/* Signature Canvas for Notification */}
-                                <Box sx={{
-                                    p: 2,
-                                    border: '2px solid #274549',
-                                    borderRadius: 2,
-                                    bgcolor: '#f9f9f9'
-                                }}>
-                                    <Typography variant="h6" sx={{ mb: 2, color: '#274549', fontWeight: 600 }}>
-                                        ✍️ {t("PleaseSignBelow")}
-                                    </Typography>
-                                    <SignatureCanvas
-                                        width={isMobile ? 340 : 600}
-                                        height={isMobile ? 120 : 180}
-                                        onSignatureChange={handleNotificationSignatureChange}
-                                        disabled={isSubmittingNotificationSignature}
-                                    />
-                                </Box>
-
-                                {notificationError && (
-                                    <Alert severity="error" sx={{ mt: 2 }}>
-                                        {notificationError}
-                                    </Alert>
-                                )}
-                            </>
-                        )}
-                    </DialogContent>
-
-                    <DialogActions sx={{
-                        p: 2,
-                        borderTop: '1px solid #e0e0e0',
-                        bgcolor: '#f9f9f9'
-                    }}>
-                        <Button
-                            onClick={() => {
-                                setNotificationDialogOpen(false);
-                                setCanvasSignature(null);
-                                setNotificationSignature(null);
-                                setNotificationError(null);
-                                setHasScrolledToBottomTerms(false);
-                                setHasAgreedToNotification(false);
-                                setHasAgreedToPersonalNotification(false);
-                            }}
-                            variant="outlined"
-                            sx={{
-                                border: '1px solid #274549',
-                                color: '#274549',
-                                '&:hover': {
-                                    border: '1px solid #1a3033',
-                                    bgcolor: 'rgba(39, 69, 73, 0.05)'
-                                }
-                            }}
-                        >
-                            {t("CancelSignature")}
-                        </Button>
-                        <Button
-                            onClick={handleAgreeToNotification}
-                            variant="contained"
-                            disabled={isLoadingNotification || isSubmittingNotificationSignature || !notificationSignature}
-                            startIcon={isSubmittingNotificationSignature ? <CircularProgress size={16} /> : <CheckCircle />}
-                            sx={{
-                                backgroundColor: '#274549',
-                                '&:hover': {
-                                    backgroundColor: '#1a3033'
-                                }
-                            }}
-                        >
-                            {isSubmittingNotificationSignature ? t("Submitting") : t("SignAndAgree")}
-                        </Button>
-                    </DialogActions>
-                </Dialog>
-
-                {/* Personal Notification Dialog */}
-                <Dialog
-                    open={personalNotificationDialogOpen}
-                    onClose={(_event, reason) => {
-                        if (reason === 'backdropClick' || reason === 'escapeKeyDown') {
-                            return;
-                        }
-                        setPersonalNotificationDialogOpen(false);
-                        setPersonalNotificationSignature(null);
-                        setPersonalNotificationError(null);
-                        // setCanvasSignature(null);
-                        // setHasScrolledToBottomTerms(false);
-                        // setHasAgreedToNotification(false);
-                        // setHasAgreedToPersonalNotification(false);
-                    }}
-                    maxWidth="md"
-                    fullWidth
-                    fullScreen={isMobile}
-                    PaperProps={{
-                        sx: {
-                            height: isMobile ? '95vh' : '80vh',
-                            maxHeight: isMobile ? '95vh' : '80vh',
-                            display: 'flex',
-                            flexDirection: 'column',
-                            m: isMobile ? 0 : 2
-                        }
-                    }}
-                >
-                    <DialogTitle sx={{
-                        pb: 1,
-                        flexShrink: 0,
-                        display: 'flex',
-                        justifyContent: 'space-between',
-                        alignItems: 'center',
-                        bgcolor: '#274549',
-                        color: 'white'
-                    }}>
-                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                            <Description />
-                            <Typography variant="h6">{t("PersonalNotification")}</Typography>
-                        </Box>
-                        <Button
-                            onClick={() => {
-                                setPersonalNotificationDialogOpen(false);
-                                setPersonalNotificationSignature(null);
-                                setPersonalNotificationError(null);
-                                // setCanvasSignature(null);
-                                // setHasScrolledToBottomTerms(false);
-                                // setHasAgreedToNotification(false);
-                                // setHasAgreedToPersonalNotification(false);
-                            }}
-                            sx={{
-                                minWidth: 'auto',
-                                p: 1,
-                                color: 'white',
-                                '&:hover': {
-                                    bgcolor: 'rgba(255, 255, 255, 0.1)'
-                                }
-                            }}
-                        >
-                            <Close />
-                        </Button>
-                    </DialogTitle>
-
-                    <DialogContent sx={{
-                        pt: 2,
-                        pb: 2,
-                        flex: 1,
-                        overflow: 'auto',
-                        display: 'flex',
-                        flexDirection: 'column'
-                    }}>
-                        {isLoadingPersonalNotification ? (
-                            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', flex: 1 }}>
-                                <Typography variant="h6" color="text.secondary" sx={{ mb: 3 }}>
-                                    {t("LoadingDocument")}
-                                </Typography>
-                                <LinearProgress sx={{ width: '60%' }} />
-                            </Box>
-                        ) : (
-                            <>
-                                <Box
-                                    sx={{
-                                        wordSpacing: '0.15em',
-                                        p: 3,
-                                        border: '1px solid #e0e0e0',
-                                        borderRadius: 2,
-                                        bgcolor: 'background.paper',
-                                        mb: 3,
-                                        '& img': {
-                                            maxWidth: '100%',
-                                            height: 'auto'
-                                        },
-                                        '& table': {
-                                            width: '100%',
-                                            borderCollapse: 'collapse'
-                                        },
-                                        '& td, & th': {
-                                            padding: '12px',
-                                            border: '1px solid #e0e0e0'
-                                        },
-                                        '& th': {
-                                            bgcolor: '#f5f5f5',
-                                            fontWeight: 'bold'
-                                        }
-                                    }}
-                                    dangerouslySetInnerHTML={{ __html: personalNotificationContent }}
-                                />
-
-                                {/* Signature Canvas for Personal Notification */}
-                                <Box sx={{
-                                    p: 2,
-                                    border: '2px solid #274549',
-                                    borderRadius: 2,
-                                    bgcolor: '#f9f9f9'
-                                }}>
-                                    <Typography variant="h6" sx={{ mb: 2, color: '#274549', fontWeight: 600 }}>
-                                        ✍️ {t("PleaseSignBelow")}
-                                    </Typography>
-                                    <SignatureCanvas
-                                        width={isMobile ? 340 : 600}
-                                        height={isMobile ? 120 : 180}
-                                        onSignatureChange={handlePersonalNotificationSignatureChange}
-                                        disabled={isSubmittingPersonalNotificationSignature}
-                                    />
-                                </Box>
-
-                                {personalNotificationError && (
-                                    <Alert severity="error" sx={{ mt: 2 }}>
-                                        {personalNotificationError}
-                                    </Alert>
-                                )}
-                            </>
-                        )}
-                    </DialogContent>
-
-                    <DialogActions sx={{
-                        p: 2,
-                        borderTop: '1px solid #e0e0e0',
-                        bgcolor: '#f9f9f9'
-                    }}>
-                        <Button
-                            onClick={() => {
-                                setPersonalNotificationDialogOpen(false);
-                                setCanvasSignature(null);
-                                setPersonalNotificationSignature(null);
-                                setPersonalNotificationError(null);
-                                setHasScrolledToBottomTerms(false);
-                                setHasAgreedToNotification(false);
-                                setHasAgreedToPersonalNotification(false);
-                            }}
-                            variant="outlined"
-                            sx={{
-                                border: '1px solid #274549',
-                                color: '#274549',
-                                '&:hover': {
-                                    border: '1px solid #1a3033',
-                                    bgcolor: 'rgba(39, 69, 73, 0.05)'
-                                }
-                            }}
-                        >
-                            {t("CancelSignature")}
-                        </Button>
-                        <Button
-                            onClick={handleAgreeToPersonalNotification}
-                            variant="contained"
-                            disabled={isLoadingPersonalNotification || isSubmittingPersonalNotificationSignature || !personalNotificationSignature}
-                            startIcon={isSubmittingPersonalNotificationSignature ? <CircularProgress size={16} /> : <CheckCircle />}
-                            sx={{
-                                backgroundColor: '#274549',
-                                '&:hover': {
-                                    backgroundColor: '#1a3033'
-                                }
-                            }}
-                        >
-                            {isSubmittingPersonalNotificationSignature ? t("Submitting") : t("SignAndAgree")}
-                        </Button>
-                    </DialogActions>
-                </Dialog>
+                {/* Full-screen landscape signing for the open document */}
+                <FullScreenSignaturePad
+                    open={isFullScreenSigning && !!activeDocument}
+                    patronName={session.request?.patronName}
+                    documentTitle={activeDocument ? getDocumentTitle(activeDocument) : undefined}
+                    onSignatureChange={handleFullScreenSignatureChange}
+                    onStrokesChange={handleDocumentStrokesChange}
+                    onDrawingStart={handleDrawingStart}
+                    onClose={() => setIsFullScreenSigning(false)}
+                />
             </Box>
         </MainLayout >
     );
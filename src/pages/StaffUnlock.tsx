@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, Card, CircularProgress, Stack, TextField, Typography } from '@mui/material';
+import { Lock } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import MainLayout from '../layout/MainLayout';
+import { useKioskContext } from '../contexts/useKioskContext';
+import { getApiErrorMessageKey } from '../services/httpClient';
+
+/**
+ * Shown in place of an admin route while kiosk mode has it locked
+ */
+export default function StaffUnlock() {
+    const { unlockAdmin } = useKioskContext();
+    const [pin, setPin] = useState('');
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const navigate = useNavigate();
+    const { t } = useTranslation();
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!pin) return;
+
+        setIsChecking(true);
+        setError(null);
+        try {
+            if (!await unlockAdmin(pin)) {
+                setError(t('IncorrectStaffPin'));
+                setPin('');
+            }
+        } catch (err) {
+            console.error('❌ Staff PIN check failed:', err);
+            setError(t(getApiErrorMessageKey(err)));
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    return (
+        <MainLayout>
+            <Box sx={{
+                flex: 1,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                bgcolor: '#f5f7fa',
+                px: 3,
+                py: 6
+            }}>
+                <Card
+                    component="form"
+                    onSubmit={handleSubmit}
+                    elevation={0}
+                    sx={{
+                        maxWidth: 420,
+                        width: '100%',
+                        textAlign: 'center',
+                        borderRadius: 4,
+                        bgcolor: 'white',
+                        p: { xs: 4, md: 6 },
+                        boxShadow: '0 8px 32px rgba(0,0,0,0.08)'
+                    }}
+                >
+                    <Lock sx={{ fontSize: 60, color: '#274549', mb: 2 }} />
+                    <Typography variant="h5" sx={{ fontWeight: 600, color: '#274549', mb: 1 }}>
+                        {t("StaffOnly")}
+                    </Typography>
+                    <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+                        {t("EnterStaffPin")}
+                    </Typography>
+
+                    <TextField
+                        fullWidth
+                        autoFocus
+                        type="password"
+                        label={t("StaffPin")}
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value)}
+                        disabled={isChecking}
+                        inputProps={{ inputMode: 'numeric', autoComplete: 'off' }}
+                        sx={{ mb: 2 }}
+                    />
+
+                    {error && (
+                        <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>
+                            {error}
+                        </Alert>
+                    )}
+
+                    <Stack direction="row" spacing={2}>
+                        <Button
+                            fullWidth
+                            size="large"
+                            variant="outlined"
+                            onClick={() => navigate('/', { replace: true })}
+                            sx={{ color: '#274549', borderColor: '#274549' }}
+                        >
+                            {t("Cancel")}
+                        </Button>
+                        <Button
+                            type="submit"
+                            fullWidth
+                            size="large"
+                            variant="contained"
+                            disabled={isChecking || !pin}
+                            startIcon={isChecking ? <CircularProgress size={16} /> : undefined}
+                            sx={{ bgcolor: '#274549', '&:hover': { bgcolor: '#1a3033' } }}
+                        >
+                            {t("Unlock")}
+                        </Button>
+                    </Stack>
+                </Card>
+            </Box>
+        </MainLayout>
+    );
+}
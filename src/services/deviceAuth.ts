@@ -0,0 +1,184 @@
+import { ApiError, setAuthHandlers } from './httpClient';
+import { signatureApiService } from './signatureApiService';
+import { getDeviceInfo } from '../utils/deviceInfo';
+import secureStorage from '../utils/secureStorage';
+import type { DeviceTokenResponse } from '../type';
+
+export type DeviceAuthStatus = 'loading' | 'unprovisioned' | 'authenticated';
+
+export interface DeviceAuthState {
+    status: DeviceAuthStatus;
+    // Set (possibly empty) when the server revoked the device, shown on the provisioning screen
+    revokedReason?: string;
+}
+
+type DeviceAuthListener = (state: DeviceAuthState) => void;
+
+const TOKEN_STORAGE_KEY = 'device-token';
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+const REFRESH_RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Device Authentication Service
+ * Provisions the tablet with a one-time code, keeps its device token fresh and attaches it
+ * to REST calls. A revoked token sends the tablet back to the provisioning screen.
+ */
+export class DeviceAuthService {
+    private token: DeviceTokenResponse | null = null;
+    private state: DeviceAuthState = { status: 'loading' };
+    private listeners = new Set<DeviceAuthListener>();
+    private loadPromise?: Promise<DeviceAuthState>;
+    private refreshPromise?: Promise<boolean>;
+    private refreshTimer?: number;
+
+    constructor() {
+        setAuthHandlers({
+            getAccessToken: () => this.getAccessToken(),
+            onSessionExpired: () => this.refresh()
+        });
+    }
+
+    private setState(state: DeviceAuthState) {
+        this.state = state;
+        this.listeners.forEach(listener => listener(state));
+    }
+
+    private async storeToken(token: DeviceTokenResponse) {
+        this.token = token;
+        await secureStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(token));
+        this.scheduleRefresh(Date.parse(token.expiresAt) - Date.now() - REFRESH_MARGIN_MS);
+        this.setState({ status: 'authenticated' });
+    }
+
+    private scheduleRefresh(delay: number) {
+        window.clearTimeout(this.refreshTimer);
+        this.refreshTimer = window.setTimeout(() => {
+            this.refresh();
+        }, Math.max(0, delay));
+    }
+
+    /**
+     * Load the stored token once; later calls share the first result
+     */
+    load(): Promise<DeviceAuthState> {
+        if (!this.loadPromise) {
+            this.loadPromise = (async () => {
+                try {
+                    const stored = await secureStorage.getItem(TOKEN_STORAGE_KEY);
+                    if (stored) {
+                        await this.storeToken(JSON.parse(stored) as DeviceTokenResponse);
+                        console.log('🔑 Device token loaded');
+                        return this.state;
+                    }
+                } catch (error) {
+                    console.error('❌ Failed to load device token:', error);
+                }
+
+                this.setState({ status: 'unprovisioned' });
+                return this.state;
+            })();
+        }
+        return this.loadPromise;
+    }
+
+    /**
+     * Exchange a one-time provisioning code for a device token
+     */
+    async provision(provisioningCode: string): Promise<void> {
+        const deviceInfo = await getDeviceInfo();
+        console.log('🔑 Provisioning device:', deviceInfo.deviceName);
+
+        const token = await signatureApiService.provisionDevice({
+            ProvisioningCode: provisioningCode.trim(),
+            DeviceName: deviceInfo.deviceName,
+            MacAddress: deviceInfo.macAddress,
+            IpAddress: deviceInfo.ipAddress
+        });
+
+        await this.storeToken(token);
+        console.log('✅ Device provisioned');
+    }
+
+    /**
+     * Current access token, renewed first when it is about to expire; null until provisioned
+     */
+    async getAccessToken(): Promise<string | null> {
+        await this.load();
+        if (!this.token) return null;
+
+        if (Date.parse(this.token.expiresAt) - Date.now() < REFRESH_MARGIN_MS) {
+            await this.refresh();
+        }
+        return this.token?.accessToken ?? null;
+    }
+
+    /**
+     * Renew the device token. Concurrent callers share one refresh; resolves to whether it succeeded.
+     */
+    refresh(): Promise<boolean> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.refreshToken().finally(() => {
+                this.refreshPromise = undefined;
+            });
+        }
+        return this.refreshPromise;
+    }
+
+    private async refreshToken(): Promise<boolean> {
+        if (!this.token) return false;
+
+        try {
+            const token = await signatureApiService.refreshDeviceToken({ RefreshToken: this.token.refreshToken });
+            await this.storeToken(token);
+            console.log('🔑 Device token refreshed, expires', token.expiresAt);
+            return true;
+        } catch (error) {
+            // The server refused the refresh token itself: the device is no longer trusted
+            if (error instanceof ApiError && (error.kind === 'expired-session' || error.kind === 'validation')) {
+                await this.revoke(error.message);
+                return false;
+            }
+
+            console.warn('⚠️ Device token refresh failed, retrying later:', error);
+            this.scheduleRefresh(REFRESH_RETRY_DELAY_MS);
+            return false;
+        }
+    }
+
+    /**
+     * Forget the device token and return to the provisioning screen
+     */
+    async revoke(reason?: string): Promise<void> {
+        if (!this.token && this.state.status === 'unprovisioned') return;
+
+        console.warn('🚫 Device token revoked:', reason || 'no reason given');
+        window.clearTimeout(this.refreshTimer);
+        this.token = null;
+
+        try {
+            await secureStorage.removeItem(TOKEN_STORAGE_KEY);
+        } catch (error) {
+            console.error('❌ Failed to remove device token:', error);
+        }
+
+        this.setState({ status: 'unprovisioned', revokedReason: reason ?? '' });
+    }
+
+    getState(): DeviceAuthState {
+        return this.state;
+    }
+
+    /**
+     * Listen for authentication state changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: DeviceAuthListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+export const deviceAuth = new DeviceAuthService();
+export default deviceAuth;
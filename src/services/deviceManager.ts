@@ -1,6 +1,17 @@
 import { signatureApiService } from './signatureApiService';
 import { getDeviceInfo, type DeviceInfo } from '../utils/deviceInfo';
-import type { RegisterDeviceRequest, RegisterDeviceResponse, UpdateConnectionRequest } from '../type';
+import { createIdentityAssertion } from '../utils/deviceIdentity';
+import signalRService from './signalRService';
+import { collectHealthSnapshot } from '../utils/deviceHealth';
+import type {
+    DeviceHealthSnapshot,
+    DeviceHeartbeat,
+    DeviceHeartbeatReply,
+    GetOnlineDevicesResponse,
+    RegisterDeviceRequest,
+    RegisterDeviceResponse,
+    UpdateConnectionRequest
+} from '../type';
 
 export interface DeviceRegistrationResult {
     success: boolean;
@@ -11,10 +22,15 @@ export interface DeviceRegistrationResult {
 
 export interface HeartbeatOptions {
     interval?: number; // milliseconds, default 30000 (30s)
+    maxMissedReplies?: number; // consecutive misses before onDeviceOffline, default 2
+    onHeartbeat?: (reply: DeviceHeartbeatReply, health: DeviceHealthSnapshot) => void;
     onHeartbeatFailed?: (error: Error) => void;
     onDeviceOffline?: () => void;
 }
 
+// A reply slower than this counts as missed
+const HEARTBEAT_REPLY_TIMEOUT_MS = 10000;
+
 /**
  * Device Management Service
  * Implements the complete device registration and management flow
@@ -24,6 +40,8 @@ export class DeviceManagerService {
     private deviceInfo?: DeviceInfo;
     private registeredDevice?: RegisterDeviceResponse;
     private isHeartbeatActive = false;
+    private heartbeatSequence = 0;
+    private missedHeartbeats = 0;
 
     /**
      * Step 1-2: Get device info and register device
@@ -31,12 +49,13 @@ export class DeviceManagerService {
      */
     async registerDevice(): Promise<DeviceRegistrationResult> {
         try {
-            // Step 1: Get Device Info (MAC Address, IP Address)
+            // Step 1: Get Device Info (device identity, IP Address)
             console.log('🔍 Step 1: Getting device information...');
             this.deviceInfo = await getDeviceInfo();
             
             console.log('📱 Device Info:', {
                 deviceName: this.deviceInfo.deviceName,
+                deviceId: this.deviceInfo.deviceId,
                 macAddress: this.deviceInfo.macAddress,
                 ipAddress: this.deviceInfo.ipAddress,
                 staffDeviceId: this.deviceInfo.staffDeviceId
@@ -44,11 +63,14 @@ export class DeviceManagerService {
 
             // Step 2: POST /api/PatronDevice/register (Handles both new & existing devices)
             console.log('📡 Step 2: Registering device with API...');
+            const identityAssertion = await createIdentityAssertion();
             const registerRequest: RegisterDeviceRequest = {
                 DeviceName: this.deviceInfo.deviceName,
                 MacAddress: this.deviceInfo.macAddress,
                 IpAddress: this.deviceInfo.ipAddress,
-                StaffDeviceId: this.deviceInfo.staffDeviceId
+                StaffDeviceId: this.deviceInfo.staffDeviceId,
+                DeviceId: this.deviceInfo.deviceId,
+                IdentityAssertion: identityAssertion ?? undefined
             };
 
             const device = await signatureApiService.registerDevice(registerRequest);
@@ -114,11 +136,13 @@ export class DeviceManagerService {
 
     /**
      * Step 6: Start heartbeat (Every 30s)
-     * Keeps the device connection alive
+     * Reports in over the hub; missed or negative replies drive the failure callbacks
      */
     startHeartbeat(options: HeartbeatOptions = {}): void {
         const {
             interval = 30000, // 30 seconds default
+            maxMissedReplies = 2,
+            onHeartbeat,
             onHeartbeatFailed,
             onDeviceOffline
         } = options;
@@ -130,17 +154,23 @@ export class DeviceManagerService {
 
         console.log('💓 Step 6: Starting heartbeat every', interval / 1000, 'seconds');
         this.isHeartbeatActive = true;
+        this.missedHeartbeats = 0;
 
         this.heartbeatInterval = setInterval(async () => {
             try {
-                await this.sendHeartbeat();
+                const { reply, health } = await this.sendHeartbeat(Math.min(interval, HEARTBEAT_REPLY_TIMEOUT_MS));
+                if (this.missedHeartbeats > 0) {
+                    console.log('💓 Heartbeat recovered after', this.missedHeartbeats, 'missed');
+                }
+                this.missedHeartbeats = 0;
+                onHeartbeat?.(reply, health);
             } catch (error) {
-                console.error('💔 Heartbeat failed:', error);
+                this.missedHeartbeats++;
+                console.error(`💔 Heartbeat failed (${this.missedHeartbeats} missed):`, error);
                 onHeartbeatFailed?.(error instanceof Error ? error : new Error('Heartbeat failed'));
-                
-                // Check if device is still online
-                const isOnline = await this.checkDeviceStatus();
-                if (!isOnline) {
+
+                // Report once per outage, when the missed replies reach the threshold
+                if (this.missedHeartbeats === maxMissedReplies) {
                     console.warn('📴 Device appears to be offline');
                     onDeviceOffline?.();
                 }
@@ -161,124 +191,40 @@ export class DeviceManagerService {
     }
 
     /**
-     * Send heartbeat by calling getOnlineDevices and checking if our device is still online
+     * Invoke the hub heartbeat and check the server still considers this device online
      */
-    private async sendHeartbeat(): Promise<void> {
-        if (!this.registeredDevice) {
+    private async sendHeartbeat(replyTimeoutMs: number): Promise<{ reply: DeviceHeartbeatReply; health: DeviceHealthSnapshot }> {
+        if (!this.registeredDevice || !this.deviceInfo) {
             throw new Error('No registered device to heartbeat');
         }
 
-        console.log('💓 Performing heartbeat check...');
-
-        // Use getOnlineDevices as heartbeat mechanism
-        const onlineDevicesResponse = await signatureApiService.getOnlineDevices();
-        
-        console.log('💓 Raw online devices response:', onlineDevicesResponse);
-        
-        // Ensure we have a valid array
-        let onlineDevices: any[] = [];
-        if (Array.isArray(onlineDevicesResponse)) {
-            onlineDevices = onlineDevicesResponse;
-        } else if (onlineDevicesResponse && Array.isArray((onlineDevicesResponse as any).data)) {
-            onlineDevices = (onlineDevicesResponse as any).data;
-        } else if (onlineDevicesResponse && typeof onlineDevicesResponse === 'object') {
-            // If it's an object, try to extract array from common properties
-            const resp = onlineDevicesResponse as any;
-            onlineDevices = resp.devices || resp.items || [];
-        }
-        
-        console.log('💓 Processed online devices array:', onlineDevices, 'Length:', onlineDevices.length);
-        
-        if (!Array.isArray(onlineDevices)) {
-            console.error('💓 Error: onlineDevices is not an array:', typeof onlineDevicesResponse, onlineDevicesResponse);
-            throw new Error('Invalid response format from getOnlineDevices');
+        const sequence = ++this.heartbeatSequence;
+        const heartbeat: DeviceHeartbeat = {
+            DeviceId: this.deviceInfo.deviceId,
+            Sequence: sequence,
+            SentAt: new Date().toISOString(),
+            Health: await collectHealthSnapshot()
+        };
+
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+        const reply = await Promise.race([
+            signalRService.sendHeartbeat(heartbeat),
+            new Promise<never>((_, reject) => {
+                timeout = setTimeout(() => reject(new Error(`No heartbeat reply within ${replyTimeoutMs / 1000}s`)), replyTimeoutMs);
+            })
+        ]).finally(() => clearTimeout(timeout));
+
+        if (reply.sequence !== sequence) {
+            throw new Error(`Heartbeat reply out of order: sent ${sequence}, got ${reply.sequence}`);
         }
-        
-        // Check if our device is in the online list
-        console.log('💓 Looking for device:', {
-            registeredDeviceName: this.registeredDevice?.deviceName,
-            registeredDeviceId: this.registeredDevice?.id
-        });
-        
-        const ourDevice = onlineDevices.find(d => {
-            const nameMatch = d.deviceName === this.registeredDevice?.deviceName;
-            const idMatch = d.id === this.registeredDevice?.id;
-            
-            console.log('💓 Checking device:', {
-                apiDeviceName: d.deviceName,
-                apiDeviceId: d.id,
-                nameMatch,
-                idMatch,
-                isOnline: d.isOnline
-            });
-            
-            return nameMatch || idMatch;
-        });
-
-        console.log('💓 Found device:', ourDevice);
-
-        if (!ourDevice) {
-            throw new Error('Device not found in online devices list');
-        }
-
-        if (!ourDevice.isOnline) {
+        if (!reply.isOnline) {
             throw new Error('Device marked as offline');
         }
 
-        // Additional validation: Check if device name matches exactly
-        if (ourDevice.deviceName !== this.registeredDevice?.deviceName) {
-            console.warn('⚠️ Device name mismatch detected:', {
-                expected: this.registeredDevice?.deviceName,
-                actual: ourDevice.deviceName,
-                deviceId: ourDevice.id
-            });
-            
-            // If only ID matched but name is different, consider it suspicious
-            if (ourDevice.id === this.registeredDevice?.id) {
-                throw new Error(`Device ID matches but name changed: expected '${this.registeredDevice?.deviceName}' but got '${ourDevice.deviceName}'`);
-            }
-        }
-
-        console.log('💓 Heartbeat successful - device is online');
-    }
-
-    /**
-     * Check device status
-     */
-    private async checkDeviceStatus(): Promise<boolean> {
-        try {
-            if (!this.registeredDevice) return false;
-
-            const onlineDevicesResponse = await signatureApiService.getOnlineDevices();
-            
-            // Ensure we have a valid array
-            let onlineDevices: any[] = [];
-            if (Array.isArray(onlineDevicesResponse)) {
-                onlineDevices = onlineDevicesResponse;
-            } else if (onlineDevicesResponse && Array.isArray((onlineDevicesResponse as any).data)) {
-                onlineDevices = (onlineDevicesResponse as any).data;
-            } else if (onlineDevicesResponse && typeof onlineDevicesResponse === 'object') {
-                const resp = onlineDevicesResponse as any;
-                onlineDevices = resp.devices || resp.items || [];
-            }
-            
-            if (!Array.isArray(onlineDevices)) {
-                console.error('💓 Error in checkDeviceStatus: onlineDevices is not an array:', typeof onlineDevicesResponse, onlineDevicesResponse);
-                return false;
-            }
-
-            const ourDevice = onlineDevices.find(d => {
-                const nameMatch = d.deviceName === this.registeredDevice?.deviceName;
-                const idMatch = d.id === this.registeredDevice?.id;
-                
-                // For status check, require both name and ID to match for security
-                return nameMatch && idMatch;
-            });
-
-            return ourDevice?.isOnline ?? false;
-        } catch {
-            return false;
-        }
+        this.registeredDevice.isOnline = reply.isOnline;
+        this.registeredDevice.isAvailable = reply.isAvailable;
+        console.log('💓 Heartbeat', sequence, 'acknowledged', reply.staffDevice ? `(mapped to ${reply.staffDevice.deviceName})` : '');
+        return { reply, health: heartbeat.Health };
     }
 
     /**
@@ -305,7 +251,7 @@ export class DeviceManagerService {
     /**
      * Get online devices list
      */
-    async getOnlineDevices(): Promise<RegisterDeviceResponse[]> {
+    async getOnlineDevices(): Promise<GetOnlineDevicesResponse[]> {
         return await signatureApiService.getOnlineDevices();
     }
 
@@ -0,0 +1,268 @@
+import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import CacheBuster from '../utils/cacheBuster';
+import { decodeMessage, unknownValue, type Decoder } from '../utils/messageDecoder';
+import { apiEnvelopeSchema } from '../utils/messageSchemas';
+
+/**
+ * HTTP request pipeline
+ * Wraps the shared axios instance with per-endpoint timeouts, retries for idempotent GETs,
+ * AbortSignal cancellation and a typed error taxonomy the UI maps to localized messages.
+ */
+
+export type ApiErrorKind =
+    | 'network'
+    | 'timeout'
+    | 'server'
+    | 'validation'
+    | 'expired-session'
+    // Aborted by the caller (e.g. the owning dialog closed); never shown to the patron
+    | 'cancelled';
+
+export class ApiError extends Error {
+    public readonly kind: ApiErrorKind;
+    public readonly source: string;
+    public readonly status?: number;
+
+    constructor(kind: ApiErrorKind, source: string, message: string, status?: number, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'ApiError';
+        this.kind = kind;
+        this.source = source;
+        this.status = status;
+    }
+}
+
+export interface RequestPolicy {
+    timeoutMs: number;
+    // Extra attempts after the first; only honoured for GET requests
+    retries: number;
+}
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    headers?: Record<string, string>;
+    policy?: Partial<RequestPolicy>;
+    // Send without the device token (provisioning and token refresh)
+    anonymous?: boolean;
+}
+
+export interface AuthHandlers {
+    getAccessToken: () => Promise<string | null>;
+    // Called when an authenticated request is rejected as expired; resolves to whether the token was renewed
+    onSessionExpired: () => Promise<boolean>;
+}
+
+const defaultPolicy: RequestPolicy = {
+    timeoutMs: 15000,
+    retries: 2
+};
+
+const PAYLOAD_EXCERPT_LENGTH = 200;
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 5000;
+
+// Statuses the backend uses for an expired or revoked device session
+const EXPIRED_SESSION_STATUSES = [401, 403, 419, 440];
+
+// i18n key per error kind
+export const apiErrorMessageKeys: Record<ApiErrorKind, string> = {
+    'network': 'ErrorNetwork',
+    'timeout': 'ErrorTimeout',
+    'server': 'ErrorServer',
+    'validation': 'ErrorValidation',
+    'expired-session': 'ErrorSessionExpired',
+    'cancelled': 'ErrorCancelled'
+};
+
+/**
+ * i18n key describing any error thrown by the pipeline, with a generic fallback for anything else
+ */
+export function getApiErrorMessageKey(error: unknown, fallback = 'ErrorServer'): string {
+    return error instanceof ApiError ? apiErrorMessageKeys[error.kind] : fallback;
+}
+
+export const isCancelledError = (error: unknown): boolean =>
+    error instanceof ApiError && error.kind === 'cancelled';
+
+let authHandlers: AuthHandlers | undefined;
+
+/**
+ * Register the device token source; set by the device auth service so this module does not depend on it
+ */
+export function setAuthHandlers(handlers: AuthHandlers | undefined): void {
+    authHandlers = handlers;
+}
+
+const API_BASE = (window as Window & { _env_?: { API_BASE?: string } })._env_?.API_BASE;
+const api = axios.create({
+    baseURL: API_BASE,
+    headers: { "Content-Type": "application/json" }
+});
+
+// Add request interceptor for cache busting on GET requests
+api.interceptors.request.use((config) => {
+    // Add cache busting to GET requests
+    if (config.method === 'get' && config.url) {
+        config.url = CacheBuster.addCacheBustToUrl(config.url);
+    }
+    return config;
+});
+
+const serverMessage = (data: unknown): string | undefined => {
+    if (typeof data === 'object' && data !== null && typeof (data as { message?: unknown }).message === 'string') {
+        return (data as { message: string }).message;
+    }
+    return undefined;
+};
+
+/**
+ * Map anything thrown while sending or decoding a request onto the error taxonomy
+ */
+export function toApiError(error: unknown, source: string): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (axios.isCancel(error)) {
+        return new ApiError('cancelled', source, 'Request cancelled', undefined, { cause: error });
+    }
+
+    if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return new ApiError('timeout', source, 'Request timed out', undefined, { cause: error });
+        }
+
+        const response = error.response;
+        if (!response) {
+            return new ApiError('network', source, error.message || 'Network error', undefined, { cause: error });
+        }
+
+        const message = serverMessage(response.data) || `HTTP ${response.status}: ${response.statusText}`;
+        if (EXPIRED_SESSION_STATUSES.includes(response.status)) {
+            return new ApiError('expired-session', source, message, response.status, { cause: error });
+        }
+        if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+            return new ApiError('validation', source, message, response.status, { cause: error });
+        }
+        return new ApiError('server', source, message, response.status, { cause: error });
+    }
+
+    return new ApiError('server', source, error instanceof Error ? error.message : String(error), undefined, { cause: error });
+}
+
+// Transient failures worth another attempt
+const isRetryable = (error: ApiError): boolean =>
+    error.kind === 'network' || error.kind === 'timeout' || (error.kind === 'server' && error.status !== undefined);
+
+// Full jitter: a random delay up to the exponential cap
+const retryDelay = (attempt: number): number =>
+    Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new axios.CanceledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new axios.CanceledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+const payloadExcerpt = (payload: unknown): string => {
+    const text = typeof payload === 'string' ? payload : JSON.stringify(payload) ?? String(payload);
+    return text.length > PAYLOAD_EXCERPT_LENGTH ? `${text.slice(0, PAYLOAD_EXCERPT_LENGTH)}…` : text;
+};
+
+/**
+ * Decode a response body against the endpoint's contract; violations name the endpoint and quote the payload
+ */
+function decodeContract<T>(decoder: Decoder<T>, payload: unknown, source: string): T {
+    const result = decodeMessage(decoder, payload, `api:${source}`);
+    if (!result.ok) {
+        // No status: the server answered, so the failure is ours to report rather than retry
+        throw new ApiError('server', source, `Contract violation in ${source}: ${result.reason}. Payload: ${payloadExcerpt(payload)}`);
+    }
+    return result.value;
+}
+
+/**
+ * Check the envelope, then decode its data with the endpoint's schema
+ */
+function decodeEnvelope<T>(response: AxiosResponse, decoder: Decoder<T>, source: string): T {
+    const envelope = decodeContract(apiEnvelopeSchema(unknownValue), response.data, source);
+    if (!envelope.success) {
+        throw new ApiError('validation', source, envelope.message || 'API call failed', response.status);
+    }
+    return decodeContract(apiEnvelopeSchema(decoder), response.data, source).data;
+}
+
+interface PipelineRequest<T> {
+    // Endpoint name used in logs, quarantine entries and errors
+    source: string;
+    config: AxiosRequestConfig;
+    // Schema for the envelope's data; anything else is a contract violation
+    decoder: Decoder<T>;
+    options?: RequestOptions;
+}
+
+/**
+ * Send a request through the pipeline. Every failure is rethrown as an ApiError.
+ */
+export async function sendRequest<T>({ source, config, decoder, options = {} }: PipelineRequest<T>): Promise<T> {
+    const isGet = (config.method || 'get').toLowerCase() === 'get';
+    const policy: RequestPolicy = { ...defaultPolicy, ...options.policy };
+    const maxAttempts = 1 + (isGet ? policy.retries : 0);
+    const auth = options.anonymous ? undefined : authHandlers;
+    let renewedSession = false;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const accessToken = await auth?.getAccessToken();
+            const response = await api.request({
+                ...config,
+                timeout: policy.timeoutMs,
+                signal: options.signal,
+                headers: {
+                    ...config.headers,
+                    ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+                    ...options.headers
+                }
+            });
+            return decodeEnvelope(response, decoder, source);
+        } catch (error) {
+            const apiError = toApiError(error, source);
+
+            if (apiError.kind === 'cancelled') {
+                console.log(`🛑 ${source} cancelled`);
+                throw apiError;
+            }
+
+            // One renewal per request; a second rejection means the device was revoked
+            if (apiError.kind === 'expired-session' && auth && !renewedSession) {
+                renewedSession = true;
+                console.warn(`🔑 ${source} rejected the device token, renewing`);
+                if (await auth.onSessionExpired()) continue;
+            }
+
+            if (attempt + 1 < maxAttempts && isRetryable(apiError)) {
+                const delay = retryDelay(attempt);
+                console.warn(`🔁 ${source} failed (${apiError.kind}), retry ${attempt + 1}/${maxAttempts - 1} in ${Math.round(delay)}ms`);
+                try {
+                    await wait(delay, options.signal);
+                } catch (abortError) {
+                    throw toApiError(abortError, source);
+                }
+                continue;
+            }
+
+            console.error(`❌ ${source} failed (${apiError.kind}):`, apiError.message, apiError.cause);
+            throw apiError;
+        }
+    }
+}
@@ -0,0 +1,320 @@
+import { signatureApiService } from './signatureApiService';
+import signalRService from './signalRService';
+import { getDeviceIdentity } from '../utils/deviceIdentity';
+import { makeId } from '../utils/id';
+import { openIndexedDb, requestToPromise } from '../utils/indexedDb';
+import type { RemoteCommand, RemoteCommandAck, RemoteCommandStatus, RemoteCommandType } from '../type';
+
+export interface RemoteCommandLogEntry {
+    commandId: string;
+    // Set on commands refused before they ran; those are kept apart so a redelivery is not taken for a replay
+    refusalId?: string;
+    type: RemoteCommandType;
+    issuedBy: string;
+    receivedAt: string;
+    status: RemoteCommandStatus | 'running';
+    message?: string;
+    completedAt?: string;
+}
+
+export interface RemoteCommandOutcome {
+    message?: string;
+    // Runs after the acknowledgement went out, for commands that end the page (reload)
+    afterAck?: () => void;
+}
+
+export type RemoteCommandExecutors = {
+    [T in RemoteCommandType]: (command: RemoteCommand) => Promise<RemoteCommandOutcome>;
+};
+
+type RemoteCommandLogListener = (entries: RemoteCommandLogEntry[]) => void;
+
+/**
+ * Thrown when a command fails authorization; acknowledged as 'rejected'.
+ * Anything else thrown while authorizing (network, storage) is acknowledged as 'failed' so it can be resent.
+ */
+export class RemoteCommandRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RemoteCommandRejectedError';
+    }
+}
+
+const DB_NAME = 'remote-commands';
+const DB_VERSION = 2;
+// Commands that passed authorization; a command ID found here that completed is a replay
+const LOG_STORE = 'log';
+// Commands refused before running, keyed by refusalId
+const REFUSED_STORE = 'refused';
+const MAX_LOG_ENTRIES = 100;
+// Logged outcomes that do not stop a resend of the same command from running
+const RETRYABLE_LOG_STATUSES: RemoteCommandLogEntry['status'][] = ['failed', 'running'];
+
+/**
+ * SHA-256 fingerprints (hex, of the SPKI) of the signing keys this deployment trusts, from
+ * window._env_.COMMAND_SIGNING_KEY_FINGERPRINTS. The key itself is served by the backend, so without
+ * a pin a compromised backend could sign anything; with none configured every command is refused.
+ */
+const resolvePinnedFingerprints = (): string[] => {
+    const env = (window as Window & { _env_?: { COMMAND_SIGNING_KEY_FINGERPRINTS?: string[] } })._env_;
+    return (env?.COMMAND_SIGNING_KEY_FINGERPRINTS ?? []).map(fingerprint => fingerprint.toLowerCase());
+};
+
+/**
+ * The exact string the server signs; field order is part of the contract
+ */
+export const canonicalRemoteCommand = (command: RemoteCommand): string =>
+    [
+        command.commandId,
+        command.targetDeviceId,
+        command.type,
+        command.language ?? '',
+        command.message ?? '',
+        command.issuedBy,
+        command.issuedAt,
+        command.expiresAt
+    ].join('\n');
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const toHex = (bytes: ArrayBuffer): string =>
+    Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Remote Command Service
+ * Authorizes server-issued commands (addressed to this device, unexpired, not replayed and signed
+ * by a pinned command signing key), runs them, acknowledges the result over the hub and keeps a local log.
+ * The log lives in IndexedDB so it survives the clear-caches command.
+ */
+export class RemoteCommandService {
+    private dbPromise?: Promise<IDBDatabase>;
+    private signingKeyPromise?: Promise<CryptoKey>;
+    private listeners = new Set<RemoteCommandLogListener>();
+    // Commands being handled right now, so a concurrent redelivery cannot pass the replay check too
+    private inFlight = new Set<string>();
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = openIndexedDb(DB_NAME, DB_VERSION, { [LOG_STORE]: 'commandId', [REFUSED_STORE]: 'refusalId' });
+            this.dbPromise.catch(() => {
+                this.dbPromise = undefined;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async withStore<T>(
+        storeName: string,
+        mode: IDBTransactionMode,
+        run: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> {
+        const db = await this.openDatabase();
+        return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+    }
+
+    private getSigningKey(): Promise<CryptoKey> {
+        if (!this.signingKeyPromise) {
+            this.signingKeyPromise = (async () => {
+                if (!globalThis.crypto?.subtle) {
+                    throw new RemoteCommandRejectedError('Cannot verify commands without Web Crypto (insecure context)');
+                }
+                const pinned = resolvePinnedFingerprints();
+                if (pinned.length === 0) {
+                    throw new RemoteCommandRejectedError('No command signing key is pinned in the deployment config');
+                }
+
+                // A failed fetch propagates as is and is treated as retryable
+                const { keyId, publicKey } = await signatureApiService.getCommandSigningKey();
+
+                let spki: Uint8Array<ArrayBuffer>;
+                try {
+                    spki = fromBase64(publicKey);
+                } catch {
+                    throw new RemoteCommandRejectedError(`Command signing key ${keyId} is not valid base64`);
+                }
+                const fingerprint = toHex(await crypto.subtle.digest('SHA-256', spki));
+                if (!pinned.includes(fingerprint)) {
+                    throw new RemoteCommandRejectedError(`Command signing key ${keyId} does not match a pinned fingerprint`);
+                }
+
+                console.log('🔑 Loaded command signing key:', keyId);
+                return crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+            })();
+            this.signingKeyPromise.catch(() => {
+                this.signingKeyPromise = undefined;
+            });
+        }
+        return this.signingKeyPromise;
+    }
+
+    private async authorize(command: RemoteCommand): Promise<void> {
+        const { deviceId } = await getDeviceIdentity();
+        if (command.targetDeviceId !== deviceId) {
+            throw new RemoteCommandRejectedError(`Command is for device ${command.targetDeviceId}`);
+        }
+
+        if (!(Date.parse(command.expiresAt) > Date.now())) {
+            throw new RemoteCommandRejectedError('Command has expired');
+        }
+
+        const key = await this.getSigningKey();
+        let isValid: boolean;
+        try {
+            isValid = await crypto.subtle.verify(
+                { name: 'ECDSA', hash: 'SHA-256' },
+                key,
+                fromBase64(command.signature),
+                new TextEncoder().encode(canonicalRemoteCommand(command))
+            );
+        } catch {
+            throw new RemoteCommandRejectedError('Malformed command signature');
+        }
+        if (!isValid) {
+            // The key may have rotated; fetch it again next time
+            this.signingKeyPromise = undefined;
+            throw new RemoteCommandRejectedError('Invalid command signature');
+        }
+    }
+
+    private async writeLog(entry: RemoteCommandLogEntry) {
+        const storeName = entry.refusalId ? REFUSED_STORE : LOG_STORE;
+        await this.withStore(storeName, 'readwrite', store => store.put(entry));
+
+        const stored = await this.withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<RemoteCommandLogEntry[]>);
+        if (stored.length > MAX_LOG_ENTRIES) {
+            const stale = stored.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt)).slice(MAX_LOG_ENTRIES);
+            await Promise.all(stale.map(old =>
+                this.withStore(storeName, 'readwrite', store => store.delete(old.refusalId ?? old.commandId))
+            ));
+        }
+
+        const current = await this.getLog();
+        this.listeners.forEach(listener => listener(current));
+    }
+
+    private async acknowledge(command: RemoteCommand, status: RemoteCommandStatus, message?: string) {
+        const ack: RemoteCommandAck = {
+            CommandId: command.commandId,
+            Status: status,
+            Message: message,
+            CompletedAt: new Date().toISOString()
+        };
+        try {
+            await signalRService.acknowledgeRemoteCommand(ack);
+        } catch (error) {
+            console.error('❌ Failed to acknowledge remote command:', command.commandId, error);
+        }
+    }
+
+    /**
+     * Authorize, run and acknowledge one command. Never rejects: anything unexpected is acknowledged as 'failed'.
+     */
+    async handle(command: RemoteCommand, executors: RemoteCommandExecutors): Promise<void> {
+        if (this.inFlight.has(command.commandId)) {
+            console.warn('🚫 Ignoring duplicate delivery of a remote command in progress:', command.commandId);
+            return;
+        }
+
+        this.inFlight.add(command.commandId);
+        try {
+            await this.run(command, executors);
+        } catch (error) {
+            console.error('❌ Remote command could not be handled:', command.commandId, error);
+            await this.acknowledge(command, 'failed', error instanceof Error ? error.message : String(error));
+        } finally {
+            this.inFlight.delete(command.commandId);
+        }
+    }
+
+    private async run(command: RemoteCommand, executors: RemoteCommandExecutors): Promise<void> {
+        // Replays of a command that completed are refused without touching its log entry. One that failed,
+        // or whose outcome was never recorded, may run again: a resend is how the server retries it.
+        const seen = await this.withStore(LOG_STORE, 'readonly', store => store.get(command.commandId) as IDBRequest<RemoteCommandLogEntry | undefined>);
+        if (seen && !RETRYABLE_LOG_STATUSES.includes(seen.status)) {
+            console.warn('🚫 Ignoring replayed remote command:', command.commandId);
+            await this.acknowledge(command, 'rejected', 'Command was already received');
+            return;
+        }
+
+        const entry: RemoteCommandLogEntry = {
+            commandId: command.commandId,
+            type: command.type,
+            issuedBy: command.issuedBy,
+            receivedAt: new Date().toISOString(),
+            status: 'running'
+        };
+        let status: RemoteCommandStatus;
+        let message: string | undefined;
+        let outcome: RemoteCommandOutcome | undefined;
+
+        try {
+            await this.authorize(command);
+        } catch (error) {
+            // Only a failed check is final; a key fetch or storage error can succeed on redelivery
+            status = error instanceof RemoteCommandRejectedError ? 'rejected' : 'failed';
+            message = error instanceof Error ? error.message : String(error);
+            console.warn('🚫 Refused remote command:', command.type, command.commandId, status, message);
+            try {
+                await this.writeLog({ ...entry, refusalId: makeId(), status, message, completedAt: entry.receivedAt });
+            } catch (logError) {
+                console.error('❌ Failed to log refused remote command:', command.commandId, logError);
+            }
+            await this.acknowledge(command, status, message);
+            return;
+        }
+
+        console.log(seen ? '🔁 Retrying remote command:' : '🛠️ Running remote command:', command.type, 'from', command.issuedBy);
+        // Marks the command as seen; if this fails the command does not run
+        await this.writeLog(entry);
+
+        try {
+            outcome = await executors[command.type](command);
+            status = 'succeeded';
+            message = outcome.message;
+        } catch (error) {
+            console.error('❌ Remote command failed:', command.type, error);
+            status = 'failed';
+            message = error instanceof Error ? error.message : String(error);
+        }
+
+        try {
+            await this.writeLog({ ...entry, status, message, completedAt: new Date().toISOString() });
+        } catch (logError) {
+            console.error('❌ Failed to log remote command result:', command.commandId, logError);
+        }
+        await this.acknowledge(command, status, message);
+        outcome?.afterAck?.();
+    }
+
+    /**
+     * Local command log, newest first
+     */
+    async getLog(): Promise<RemoteCommandLogEntry[]> {
+        try {
+            const [accepted, refused] = await Promise.all([
+                this.withStore(LOG_STORE, 'readonly', store => store.getAll() as IDBRequest<RemoteCommandLogEntry[]>),
+                this.withStore(REFUSED_STORE, 'readonly', store => store.getAll() as IDBRequest<RemoteCommandLogEntry[]>)
+            ]);
+            return [...accepted, ...refused]
+                .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))
+                .slice(0, MAX_LOG_ENTRIES);
+        } catch (error) {
+            console.error('❌ Failed to read remote command log:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Listen for log changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: RemoteCommandLogListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+export const remoteCommands = new RemoteCommandService();
+export default remoteCommands;
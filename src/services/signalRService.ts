@@ -1,26 +1,111 @@
 import * as signalR from '@microsoft/signalr';
-import type { SignatureMessageData } from '../type';
-
-export interface PatronUpdateMessage {
-    patronId: number;
-    membershipId?: string;
-    status: string;
-    message: string;
-    timestamp: Date;
+import deviceAuth from './deviceAuth';
+import type {
+    DeviceHeartbeat,
+    DeviceHeartbeatReply,
+    DeviceMappingResponse,
+    DeviceRevocation,
+    DeviceStatusChange,
+    RemoteCommand,
+    RemoteCommandAck,
+    IncomeData,
+    PatronData,
+    PatronUpdateMessage,
+    SignatureMessageData,
+    SignatureRequestAck,
+    SignatureRequestCancellation,
+    SignatureRequestReplacement,
+    SigningProgressEvent,
+    ValidationResult
+} from '../type';
+import { boolean, decodeMessage, decodeOrThrow, number, string, tuple, type Decoder } from '../utils/messageDecoder';
+import {
+    deviceMappingSchema,
+    deviceRevocationSchema,
+    deviceStatusChangeSchema,
+    heartbeatReplySchema,
+    patronUpdateSchema,
+    remoteCommandSchema,
+    signatureCancellationSchema,
+    signatureMessageSchema,
+    signatureReplacementSchema,
+    signingProgressSchema,
+    validationResultSchema
+} from '../utils/messageSchemas';
+
+/**
+ * Hub contract - every server-to-client event and client-to-server method on patronSignatureHub.
+ * Names must match the backend hub exactly; on/off/invoke are checked against these maps at compile time.
+ */
+export interface HubEvents {
+    ShowSignatureRequest: [data: SignatureMessageData];
+    CancelSignatureRequest: [cancellation: SignatureRequestCancellation];
+    ReplaceSignatureRequest: [replacement: SignatureRequestReplacement];
+    ReceivePatronUpdate: [message: PatronUpdateMessage];
+    ReceiveValidationResult: [result: ValidationResult];
+    ReceiveIncomeValidation: [patronId: number, isValid: boolean, message: string];
+    // Staff side: progress of the patron signing on the paired tablet
+    ReceiveSigningProgress: [event: SigningProgressEvent];
+    // The server revoked this device's token
+    DeviceRevoked: [revocation: DeviceRevocation];
+    // Tablet side: a staff device claimed this tablet's pairing code
+    DevicePaired: [mapping: DeviceMappingResponse];
+    // Fleet monitor: a tablet's online/available state or health changed
+    DeviceStatusChanged: [change: DeviceStatusChange];
+    // Fleet monitor: a tablet was paired with a different staff device
+    DeviceMappingChanged: [mapping: DeviceMappingResponse];
+    // Tablet side: support staff issued a remote command for this device
+    ExecuteRemoteCommand: [command: RemoteCommand];
 }
 
-export interface ValidationResult {
-    isValid: boolean;
-    errors?: string[];
-    data?: any;
+export interface HubMethods {
+    ValidatePatronData: { args: [patronData: PatronData]; result: void };
+    ValidateIncomeDocument: { args: [patronId: number, incomeData: IncomeData]; result: void };
+    GetPatronStatus: { args: [patronId: number]; result: void };
+    AcknowledgeSignatureRequest: { args: [ack: SignatureRequestAck]; result: void };
+    ReportSigningProgress: { args: [event: SigningProgressEvent]; result: void };
+    Ping: { args: []; result: void };
+    // Decoded with heartbeatReplySchema by sendHeartbeat
+    Heartbeat: { args: [heartbeat: DeviceHeartbeat]; result: unknown };
+    // Group membership is per connection; rejoin after every (re)connect
+    JoinFleetMonitor: { args: []; result: void };
+    LeaveFleetMonitor: { args: []; result: void };
+    AcknowledgeRemoteCommand: { args: [ack: RemoteCommandAck]; result: void };
 }
 
+export type HubEventName = keyof HubEvents;
+export type HubMethodName = keyof HubMethods;
+export type HubEventHandler<E extends HubEventName> = (...args: HubEvents[E]) => void;
+
+// Runtime decoders for each event's arguments; handlers never see a payload that fails these
+const hubEventDecoders: { [E in HubEventName]: Decoder<HubEvents[E]> } = {
+    ShowSignatureRequest: tuple<HubEvents['ShowSignatureRequest']>(signatureMessageSchema),
+    CancelSignatureRequest: tuple<HubEvents['CancelSignatureRequest']>(signatureCancellationSchema),
+    ReplaceSignatureRequest: tuple<HubEvents['ReplaceSignatureRequest']>(signatureReplacementSchema),
+    ReceivePatronUpdate: tuple<HubEvents['ReceivePatronUpdate']>(patronUpdateSchema),
+    ReceiveValidationResult: tuple<HubEvents['ReceiveValidationResult']>(validationResultSchema),
+    ReceiveIncomeValidation: tuple<HubEvents['ReceiveIncomeValidation']>(number, boolean, string),
+    ReceiveSigningProgress: tuple<HubEvents['ReceiveSigningProgress']>(signingProgressSchema),
+    DeviceRevoked: tuple<HubEvents['DeviceRevoked']>(deviceRevocationSchema),
+    DevicePaired: tuple<HubEvents['DevicePaired']>(deviceMappingSchema),
+    DeviceStatusChanged: tuple<HubEvents['DeviceStatusChanged']>(deviceStatusChangeSchema),
+    DeviceMappingChanged: tuple<HubEvents['DeviceMappingChanged']>(deviceMappingSchema),
+    ExecuteRemoteCommand: tuple<HubEvents['ExecuteRemoteCommand']>(remoteCommandSchema)
+};
+
+type RawHubHandler = (...args: unknown[]) => void;
+
 class SignalRService {
     private connection: signalR.HubConnection | null = null;
     private reconnectAttempts = 0;
+    // Reconnects since page load, reported in the heartbeat health snapshot
+    private reconnectCount = 0;
     private maxReconnectAttempts = 5;
     private reconnectDelay = 3000;
     private deviceName?: string;
+    // Decoding wrappers registered on the connection, keyed by event and original handler
+    private decodingHandlers = new Map<HubEventName, Map<unknown, RawHubHandler>>();
+    private connectedListeners = new Set<() => void>();
 
     constructor() {
         this.initializeConnection();
@@ -56,6 +141,8 @@ class SignalRService {
             .withUrl(hubUrl, {
                 // Remove skipNegotiation to allow for better compatibility
                 transport: signalR.HttpTransportType.WebSockets | signalR.HttpTransportType.LongPolling,
+                // Device token, renewed by the auth service; called on every (re)connect
+                accessTokenFactory: async () => (await deviceAuth.getAccessToken()) ?? '',
                 // Add headers for CORS if needed
                 headers: {
                     'Access-Control-Allow-Origin': '*'
@@ -81,14 +168,21 @@ class SignalRService {
     private setupEventHandlers() {
         if (!this.connection) return;
 
+        // Carry subscriptions over when the connection is rebuilt (e.g. after setDeviceName)
+        this.decodingHandlers.forEach((handlers, eventName) => {
+            handlers.forEach(handler => this.connection?.on(eventName, handler));
+        });
+
         this.connection.onreconnecting((error) => {
             console.warn('SignalR reconnecting...', error);
             this.reconnectAttempts++;
+            this.reconnectCount++;
         });
 
         this.connection.onreconnected((connectionId) => {
             console.log('SignalR reconnected. Connection ID:', connectionId);
             this.reconnectAttempts = 0;
+            this.notifyConnected();
         });
 
         this.connection.onclose((error) => {
@@ -112,6 +206,7 @@ class SignalRService {
                 console.log('🔗 Connection ID:', this.connection.connectionId);
                 console.log('🌐 Connection State:', signalR.HubConnectionState[this.connection.state]);
                 this.reconnectAttempts = 0;
+                this.notifyConnected();
             } catch (error: any) {
                 console.error('❌ SignalR Connection failed:', error);
                 
@@ -150,34 +245,146 @@ class SignalRService {
         }
     }
 
+    // Run a callback every time the connection is (re)established; returns an unsubscribe function
+    public onConnected(callback: () => void): () => void {
+        this.connectedListeners.add(callback);
+        return () => {
+            this.connectedListeners.delete(callback);
+        };
+    }
+
+    private notifyConnected() {
+        this.connectedListeners.forEach(listener => {
+            try {
+                listener();
+            } catch (error) {
+                console.error('Error in SignalR connected listener:', error);
+            }
+        });
+    }
+
+    // Subscribe to a hub event declared in HubEvents; malformed payloads are quarantined, not delivered
+    public on<E extends HubEventName>(eventName: E, callback: HubEventHandler<E>): void {
+        const decoder = hubEventDecoders[eventName] as Decoder<HubEvents[E]>;
+        const handler: RawHubHandler = (...args) => {
+            const result = decodeMessage(decoder, args, `hub:${eventName}`);
+            if (result.ok) {
+                callback(...result.value);
+            }
+        };
+
+        const handlers = this.decodingHandlers.get(eventName) ?? new Map<unknown, RawHubHandler>();
+        handlers.set(callback, handler);
+        this.decodingHandlers.set(eventName, handlers);
+        this.connection?.on(eventName, handler);
+    }
+
+    // Unsubscribe from a hub event - one handler, or every handler when none is given
+    public off<E extends HubEventName>(eventName: E, callback?: HubEventHandler<E>): void {
+        const handlers = this.decodingHandlers.get(eventName);
+
+        if (callback) {
+            const handler = handlers?.get(callback);
+            if (handler) {
+                this.connection?.off(eventName, handler);
+                handlers?.delete(callback);
+            }
+        } else {
+            this.connection?.off(eventName);
+            this.decodingHandlers.delete(eventName);
+        }
+    }
+
+    // Invoke a hub method declared in HubMethods
+    public async invoke<M extends HubMethodName>(
+        methodName: M,
+        ...args: HubMethods[M]['args']
+    ): Promise<HubMethods[M]['result']> {
+        if (this.connection?.state !== signalR.HubConnectionState.Connected) {
+            throw new Error('SignalR not connected');
+        }
+
+        return this.connection.invoke<HubMethods[M]['result']>(methodName, ...args);
+    }
+
     // Subscribe to patron updates
-    public onPatronUpdated(callback: (message: PatronUpdateMessage) => void): void {
-        this.connection?.on('ReceivePatronUpdate', callback);
+    public onPatronUpdated(callback: HubEventHandler<'ReceivePatronUpdate'>): void {
+        this.on('ReceivePatronUpdate', callback);
     }
 
     // Subscribe to validation results
-    public onValidationResult(callback: (result: ValidationResult) => void): void {
-        this.connection?.on('ReceiveValidationResult', callback);
+    public onValidationResult(callback: HubEventHandler<'ReceiveValidationResult'>): void {
+        this.on('ReceiveValidationResult', callback);
     }
 
     // Subscribe to income validation
-    public onIncomeValidation(callback: (patronId: number, isValid: boolean, message: string) => void): void {
-        this.connection?.on('ReceiveIncomeValidation', callback);
+    public onIncomeValidation(callback: HubEventHandler<'ReceiveIncomeValidation'>): void {
+        this.on('ReceiveIncomeValidation', callback);
+    }
+
+    // Subscribe to patron signing progress (staff side)
+    public onSigningProgress(callback: HubEventHandler<'ReceiveSigningProgress'>): void {
+        this.on('ReceiveSigningProgress', callback);
     }
 
     // Subscribe to signature requests
-    public onSignatureRequest(callback: (data: SignatureMessageData) => void): void {
-        this.connection?.on('ShowSignatureRequest', callback);
+    public onSignatureRequest(callback: HubEventHandler<'ShowSignatureRequest'>): void {
+        this.on('ShowSignatureRequest', callback);
     }
 
-    // Send patron data for validation
-    public async validatePatron(patronData: any): Promise<void> {
-        if (this.connection?.state !== signalR.HubConnectionState.Connected) {
-            throw new Error('SignalR not connected');
-        }
+    // Subscribe to staff withdrawing a signature request
+    public onSignatureRequestCancelled(callback: HubEventHandler<'CancelSignatureRequest'>): void {
+        this.on('CancelSignatureRequest', callback);
+    }
+
+    // Subscribe to staff replacing a signature request with a corrected one
+    public onSignatureRequestReplaced(callback: HubEventHandler<'ReplaceSignatureRequest'>): void {
+        this.on('ReplaceSignatureRequest', callback);
+    }
 
+    // Subscribe to the server revoking this device
+    public onDeviceRevoked(callback: HubEventHandler<'DeviceRevoked'>): void {
+        this.on('DeviceRevoked', callback);
+    }
+
+    // Subscribe to a staff device pairing with this tablet
+    public onDevicePaired(callback: HubEventHandler<'DevicePaired'>): void {
+        this.on('DevicePaired', callback);
+    }
+
+    // Subscribe to fleet device status changes (fleet monitor)
+    public onDeviceStatusChanged(callback: HubEventHandler<'DeviceStatusChanged'>): void {
+        this.on('DeviceStatusChanged', callback);
+    }
+
+    // Subscribe to fleet mapping changes (fleet monitor)
+    public onDeviceMappingChanged(callback: HubEventHandler<'DeviceMappingChanged'>): void {
+        this.on('DeviceMappingChanged', callback);
+    }
+
+    // Subscribe to remote commands for this tablet
+    public onRemoteCommand(callback: HubEventHandler<'ExecuteRemoteCommand'>): void {
+        this.on('ExecuteRemoteCommand', callback);
+    }
+
+    // Report the outcome of a remote command
+    public async acknowledgeRemoteCommand(ack: RemoteCommandAck): Promise<void> {
+        await this.invoke('AcknowledgeRemoteCommand', ack);
+    }
+
+    // Start or stop receiving fleet events on this connection
+    public async joinFleetMonitor(): Promise<void> {
+        await this.invoke('JoinFleetMonitor');
+    }
+
+    public async leaveFleetMonitor(): Promise<void> {
+        await this.invoke('LeaveFleetMonitor');
+    }
+
+    // Send patron data for validation
+    public async validatePatron(patronData: PatronData): Promise<void> {
         try {
-            await this.connection.invoke('ValidatePatronData', patronData);
+            await this.invoke('ValidatePatronData', patronData);
         } catch (error) {
             console.error('Error validating patron:', error);
             throw error;
@@ -185,38 +392,46 @@ class SignalRService {
     }
 
     // Send income validation request
-    public async validateIncome(patronId: number, incomeData: any): Promise<void> {
-        if (this.connection?.state !== signalR.HubConnectionState.Connected) {
-            throw new Error('SignalR not connected');
+    public async validateIncome(patronId: number, incomeData: IncomeData): Promise<void> {
+        try {
+            await this.invoke('ValidateIncomeDocument', patronId, incomeData);
+        } catch (error) {
+            console.error('Error validating income:', error);
+            throw error;
         }
+    }
 
+    // Report delivery state of a signature request back to staff
+    public async acknowledgeSignatureRequest(ack: SignatureRequestAck): Promise<void> {
         try {
-            await this.connection.invoke('ValidateIncomeDocument', patronId, incomeData);
+            await this.invoke('AcknowledgeSignatureRequest', ack);
         } catch (error) {
-            console.error('Error validating income:', error);
+            console.error('Error acknowledging signature request:', error);
             throw error;
         }
     }
 
+    // Stream a signing step to the staff device (tablet side)
+    public async reportSigningProgress(event: SigningProgressEvent): Promise<void> {
+        await this.invoke('ReportSigningProgress', event);
+    }
+
+    // Report in and get the server's view of this device (tablet side)
+    public async sendHeartbeat(heartbeat: DeviceHeartbeat): Promise<DeviceHeartbeatReply> {
+        const reply = await this.invoke('Heartbeat', heartbeat);
+        return decodeOrThrow(heartbeatReplySchema, reply, 'Heartbeat');
+    }
+
     // Request patron status
     public async getPatronStatus(patronId: number): Promise<void> {
-        if (this.connection?.state !== signalR.HubConnectionState.Connected) {
-            throw new Error('SignalR not connected');
-        }
-
         try {
-            await this.connection.invoke('GetPatronStatus', patronId);
+            await this.invoke('GetPatronStatus', patronId);
         } catch (error) {
             console.error('Error getting patron status:', error);
             throw error;
         }
     }
 
-    // Unsubscribe from events
-    public off(eventName: string): void {
-        this.connection?.off(eventName);
-    }
-
     // Get connection state
     public getState(): signalR.HubConnectionState | undefined {
         return this.connection?.state;
@@ -249,6 +464,11 @@ class SignalRService {
         };
     }
 
+    // Reconnects since page load
+    public getReconnectCount(): number {
+        return this.reconnectCount;
+    }
+
     // Test connection with ping
     public async testConnection(): Promise<boolean> {
         if (!this.isConnected()) {
@@ -256,7 +476,7 @@ class SignalRService {
         }
 
         try {
-            await this.connection!.invoke('Ping');
+            await this.invoke('Ping');
             console.log('✅ SignalR ping successful');
             return true;
         } catch (error) {
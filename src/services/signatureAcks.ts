@@ -0,0 +1,90 @@
+import signalRService from './signalRService';
+import type { SignatureAckStatus, SignatureMessageData, SignatureRequestAck } from '../type';
+
+// Latest acknowledgement per request and whether the hub has accepted it
+export interface SignatureAckState {
+    ack: SignatureRequestAck;
+    delivered: boolean;
+}
+
+type AckListener = (acks: Record<string, SignatureAckState>) => void;
+
+const FINAL_ACK_STATUSES: SignatureAckStatus[] = ['declined', 'expired'];
+
+/**
+ * Signature Acknowledgement Service
+ * One record of the delivery statuses reported to staff, however many screens handle the same request,
+ * so each status is sent once and re-sent once after a reconnect.
+ */
+export class SignatureAckService {
+    private acks: Record<string, SignatureAckState> = {};
+    private listeners = new Set<AckListener>();
+    private unsubscribeConnected?: () => void;
+
+    private setAckState(ackState: SignatureAckState) {
+        this.acks = { ...this.acks, [ackState.ack.requestId]: ackState };
+        this.listeners.forEach(listener => listener(this.acks));
+    }
+
+    private async deliver(ack: SignatureRequestAck): Promise<void> {
+        try {
+            await signalRService.acknowledgeSignatureRequest(ack);
+            console.log('📨 Acknowledged signature request:', ack.requestId, ack.status);
+
+            // A newer status may have been recorded while this one was in flight
+            if (this.acks[ack.requestId]?.ack === ack) {
+                this.setAckState({ ack, delivered: true });
+            }
+        } catch (error) {
+            console.warn('⚠️ Acknowledgement not delivered, will retry after reconnect:', ack.requestId, ack.status, error);
+        }
+    }
+
+    // Re-send acknowledgements the hub never accepted once the connection is back
+    private watchReconnects() {
+        if (this.unsubscribeConnected) return;
+        this.unsubscribeConnected = signalRService.onConnected(() => {
+            const pending = Object.values(this.acks).filter(ackState => !ackState.delivered);
+            if (pending.length > 0) {
+                console.log('🔄 Re-sending', pending.length, 'pending acknowledgement(s) after reconnect');
+            }
+            pending.forEach(ackState => this.deliver(ackState.ack));
+        });
+    }
+
+    /**
+     * Record a delivery status for a request and report it to staff.
+     * Repeats are dropped, and declined/expired are final (closing an expired dialog is not a decline).
+     */
+    acknowledge(request: SignatureMessageData, status: SignatureAckStatus): void {
+        const current = this.acks[request.requestId]?.ack.status;
+        if (current === status || (current && FINAL_ACK_STATUSES.includes(current))) return;
+
+        this.watchReconnects();
+        const ack: SignatureRequestAck = {
+            requestId: request.requestId,
+            sessionId: request.sessionId,
+            status,
+            timestamp: new Date().toISOString()
+        };
+        this.setAckState({ ack, delivered: false });
+        this.deliver(ack);
+    }
+
+    getAcks(): Record<string, SignatureAckState> {
+        return this.acks;
+    }
+
+    /**
+     * Listen for acknowledgement changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: AckListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+export const signatureAcks = new SignatureAckService();
+export default signatureAcks;
@@ -1,120 +1,135 @@
-import axios from "axios";
-import CacheBuster from "../utils/cacheBuster";
 import type {
+    ClaimPairingRequest,
+    CommandSigningKeyResponse,
     CurrentHostNameResponse,
     DeviceMappingResponse,
+    DeviceProvisionRequest,
+    DeviceTokenRefreshRequest,
+    DeviceTokenResponse,
+    DiagnosticsReport,
     GetNotificationRequest,
+    GetOnlineDevicesResponse,
     GetNotificationResponse,
     GetTermsResponse,
     NotificationConfirmRequest,
+    PairingSession,
     RegisterDeviceRequest,
     RegisterDeviceResponse,
     ReviewableSignatureResponse,
     SignatureConfirmRequest,
     SignatureConfirmResponse,
+    StaffPinVerifyRequest,
+    StaffPinVerifyResponse,
+    StandbyContentResponse,
     UpdateConnectionRequest,
     UpdateConnectionResponse
 } from "../type";
+import { ApiError, sendRequest, type RequestOptions, type RequestPolicy } from "./httpClient";
+import {
+    commandSigningKeySchema,
+    currentHostNameSchema,
+    deviceMappingSchema,
+    deviceTokenSchema,
+    diagnosticsUploadResultSchema,
+    htmlDocumentSchema,
+    notificationSubmitResultSchema,
+    onlineDevicesSchema,
+    pairingSessionSchema,
+    registerDeviceResponseSchema,
+    signatureSubmitResultSchema,
+    staffPinVerifySchema,
+    standbyContentSchema,
+    updateConnectionResponseSchema
+} from "../utils/messageSchemas";
 
-const API_BASE = (window as any)._env_?.API_BASE;
-const api = axios.create({
-    baseURL: API_BASE,
-    headers: { "Content-Type": "application/json" }
-});
+export interface SubmitOptions extends RequestOptions {
+    // Lets the server drop a retried submission it already stored
+    idempotencyKey?: string;
+}
 
-function unwrapApiEnvelope<T>(response: { data: any }): T {
-    console.log('🔧 API Response unwrapping:', response.data);
+// Per-endpoint policies; anything not listed uses the pipeline default
+const policies = {
+    device: { timeoutMs: 10000 },
+    document: { timeoutMs: 20000 },
+    // Submissions are never retried by the pipeline; the signature outbox owns their retries
+    submit: { timeoutMs: 30000 }
+} satisfies Record<string, Partial<RequestPolicy>>;
 
-    // Handle different response formats
-    if (response.data) {
-        // Format 1: { status, data, success }
-        if (typeof response.data.success !== 'undefined') {
-            if (!response.data.success) {
-                throw new Error(response.data.message || "API call failed");
-            }
-            return response.data.data || response.data;
-        }
+const withPolicy = (policy: Partial<RequestPolicy>, options?: RequestOptions): RequestOptions => ({
+    ...options,
+    policy: { ...policy, ...options?.policy }
+});
 
-        // Format 2: Direct data
-        if (typeof response.data === 'object' && response.data !== null) {
-            return response.data;
-        }
-    }
+const submitOptions = ({ idempotencyKey, ...options }: SubmitOptions = {}): RequestOptions =>
+    withPolicy(policies.submit, {
+        ...options,
+        headers: idempotencyKey ? { ...options.headers, 'Idempotency-Key': idempotencyKey } : options.headers
+    });
 
-    // Format 3: Response itself is the data
-    return response.data;
-}
+export const signatureApiService = {
+    // Exchange a one-time provisioning code for the device token
+    provisionDevice: (request: DeviceProvisionRequest, options?: RequestOptions): Promise<DeviceTokenResponse> =>
+        sendRequest({
+            source: 'provisionDevice',
+            config: { method: 'post', url: '/api/PatronDevice/provision', data: request },
+            decoder: deviceTokenSchema,
+            options: withPolicy(policies.device, { ...options, anonymous: true })
+        }),
 
-// Add request interceptor for cache busting on GET requests
-api.interceptors.request.use((config) => {
-    // Add cache busting to GET requests
-    if (config.method === 'get' && config.url) {
-        config.url = CacheBuster.addCacheBustToUrl(config.url);
-    }
-    return config;
-});
+    refreshDeviceToken: (request: DeviceTokenRefreshRequest, options?: RequestOptions): Promise<DeviceTokenResponse> =>
+        sendRequest({
+            source: 'refreshDeviceToken',
+            config: { method: 'post', url: '/api/PatronDevice/refresh-token', data: request },
+            decoder: deviceTokenSchema,
+            options: withPolicy(policies.device, { ...options, anonymous: true })
+        }),
 
-export const signatureApiService = {
-    registerDevice: async (deviceData: RegisterDeviceRequest): Promise<RegisterDeviceResponse> => {
-        try {
-            const response = await api.post('/api/PatronDevice/register-device', deviceData);
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error registering device:', error);
-            throw error;
-        }
-    },
+    registerDevice: (deviceData: RegisterDeviceRequest, options?: RequestOptions): Promise<RegisterDeviceResponse> =>
+        sendRequest({
+            source: 'registerDevice',
+            config: { method: 'post', url: '/api/PatronDevice/register-device', data: deviceData },
+            decoder: registerDeviceResponseSchema,
+            options: withPolicy(policies.device, options)
+        }),
 
-    updateConnection: async (deviceData: UpdateConnectionRequest): Promise<UpdateConnectionResponse> => {
-        try {
-            const response = await api.post('/api/PatronDevice/update-connection', deviceData);
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error updating connection:', error);
-            throw error;
-        }
-    },
+    updateConnection: (deviceData: UpdateConnectionRequest, options?: RequestOptions): Promise<UpdateConnectionResponse> =>
+        sendRequest({
+            source: 'updateConnection',
+            config: { method: 'post', url: '/api/PatronDevice/update-connection', data: deviceData },
+            decoder: updateConnectionResponseSchema,
+            options: withPolicy(policies.device, options)
+        }),
 
-    getOnlineDevices: async (): Promise<RegisterDeviceResponse[]> => {
-        try {
-            const response = await api.get('/api/PatronDevice/online-devices');
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error fetching online devices:', error);
-            throw error;
-        }
-    },
+    getOnlineDevices: (options?: RequestOptions): Promise<GetOnlineDevicesResponse[]> =>
+        sendRequest({
+            source: 'getOnlineDevices',
+            config: { method: 'get', url: '/api/PatronDevice/online-devices' },
+            decoder: onlineDevicesSchema,
+            options: withPolicy(policies.device, options)
+        }),
 
-    submitSignature: async (data: SignatureConfirmRequest): Promise<SignatureConfirmResponse> => {
+    submitSignature: async (data: SignatureConfirmRequest, options?: SubmitOptions): Promise<SignatureConfirmResponse> => {
         try {
-            const response = await api.post('/api/CustomerSign/submit-signature', data);
+            const result = await sendRequest({
+                source: 'submitSignature',
+                config: { method: 'post', url: '/api/CustomerSign/submit-signature', data },
+                decoder: signatureSubmitResultSchema,
+                options: submitOptions(options)
+            });
 
-            const result = unwrapApiEnvelope(response);
-            // Ensure we return a properly formatted SignatureConfirmResponse
-            if (result && typeof result === 'object') {
-                const resultObj = result as any;
-                return {
-                    success: resultObj.success ?? true, // Default to true if success field missing
-                    message: resultObj.message || 'Signature submitted successfully',
-                    requestId: resultObj.requestId || data.sessionId,
-                    timestamp: resultObj.timestamp || new Date().toISOString()
-                };
-            } else {
-                return {
-                    success: true,
-                    message: 'Signature submitted successfully',
-                    requestId: data.sessionId,
-                    timestamp: new Date().toISOString()
-                };
-            }
+            // A rejected submission arrives as an unsuccessful envelope and is handled below
+            return {
+                success: true,
+                message: 'Signature submitted successfully',
+                requestId: result?.requestId || data.sessionId,
+                timestamp: result?.timestamp || new Date().toISOString()
+            };
         } catch (error) {
-            console.error('❌ Error submitting signature:', error);
-
-            // Check if it's an axios error with response
-            if (axios.isAxiosError(error) && error.response) {
+            // Only a refusal of the submission itself is a rejection; outages and timeouts are rethrown for a retry
+            if (error instanceof ApiError && error.kind === 'validation') {
                 return {
                     success: false,
-                    message: error.response.data?.message || `HTTP ${error.response.status}: ${error.response.statusText}`,
+                    message: error.message,
                     requestId: data.sessionId,
                     timestamp: new Date().toISOString()
                 };
@@ -124,78 +139,134 @@ export const signatureApiService = {
         }
     },
 
-    getReviewableSignatures: async (patronId: number, language?: string): Promise<ReviewableSignatureResponse> => {
-        try {
-            const response = await api.get(`/api/CustomerSign/sign-review/${patronId}`, { params: { language: encodeURIComponent(language || '') } });
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error fetching reviewable signatures:', error);
-            throw error;
-        }
-    },
+    getReviewableSignatures: (patronId: number, language?: string, options?: RequestOptions): Promise<ReviewableSignatureResponse> =>
+        sendRequest({
+            source: 'getReviewableSignatures',
+            config: {
+                method: 'get',
+                url: `/api/CustomerSign/sign-review/${patronId}`,
+                params: { language: encodeURIComponent(language || '') }
+            },
+            decoder: htmlDocumentSchema,
+            options: withPolicy(policies.document, options)
+        }),
 
-    getTermsAndConditions: async (language: string): Promise<GetTermsResponse> => {
-        try {
-            const response = await api.get(`/api/Documents/getTermsV2/` + encodeURIComponent(language));
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error fetching terms and conditions:', error);
-            throw error;
-        }
-    },
+    getTermsAndConditions: (language: string, options?: RequestOptions): Promise<GetTermsResponse> =>
+        sendRequest({
+            source: 'getTermsAndConditions',
+            config: { method: 'get', url: `/api/Documents/getTermsV2/` + encodeURIComponent(language) },
+            decoder: htmlDocumentSchema,
+            options: withPolicy(policies.document, options)
+        }),
 
-    getTermsAndConditionsV2: async (request: GetNotificationRequest): Promise<GetNotificationResponse> => {
-        try {
-            const response = await api.post(`/api/Documents/getTerms/`, request);
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error fetching notification:', error);
-            throw error;
-        }
-    },
+    getTermsAndConditionsV2: (request: GetNotificationRequest, options?: RequestOptions): Promise<GetNotificationResponse> =>
+        sendRequest({
+            source: 'getTermsAndConditionsV2',
+            config: { method: 'post', url: `/api/Documents/getTerms/`, data: request },
+            decoder: htmlDocumentSchema,
+            options: withPolicy(policies.document, options)
+        }),
 
-    getNotification: async (request: GetNotificationRequest): Promise<GetNotificationResponse> => {
-        try {
-            const response = await api.post(`/api/Documents/getNotification/`, request);
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error fetching notification:', error);
-            throw error;
-        }
-    },
+    getNotification: (request: GetNotificationRequest, options?: RequestOptions): Promise<GetNotificationResponse> =>
+        sendRequest({
+            source: 'getNotification',
+            config: { method: 'post', url: `/api/Documents/getNotification/`, data: request },
+            decoder: htmlDocumentSchema,
+            options: withPolicy(policies.document, options)
+        }),
 
-    getPersonalNotification: async (request: GetNotificationRequest): Promise<GetNotificationResponse> => {
-        try {
-            const response = await api.post(`/api/Documents/getPersonalNotification/`, request);
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error fetching personal notification:', error);
-            throw error;
-        }
-    },
+    getPersonalNotification: (request: GetNotificationRequest, options?: RequestOptions): Promise<GetNotificationResponse> =>
+        sendRequest({
+            source: 'getPersonalNotification',
+            config: { method: 'post', url: `/api/Documents/getPersonalNotification/`, data: request },
+            decoder: htmlDocumentSchema,
+            options: withPolicy(policies.document, options)
+        }),
 
-    getCurrentHostName: async (): Promise<CurrentHostNameResponse> => {
-        const res = await api.get(`/api/PatronDevice/client-name`);
-        return unwrapApiEnvelope(res);
-    },
+    getCurrentHostName: (options?: RequestOptions): Promise<CurrentHostNameResponse> =>
+        sendRequest({
+            source: 'getCurrentHostName',
+            config: { method: 'get', url: `/api/PatronDevice/client-name` },
+            decoder: currentHostNameSchema,
+            options: withPolicy(policies.device, options)
+        }),
 
-    getPatronDeviceInformation: async (): Promise<DeviceMappingResponse> => {
-        try {
-            const response = await api.get(`/api/PatronDevice/get-infor`);
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error fetching patron device information:', error);
-            throw error;
-        }
+    // Mapping of this tablet, or of the given patron device (fleet view)
+    getPatronDeviceInformation: (patronDeviceId?: string, options?: RequestOptions): Promise<DeviceMappingResponse> =>
+        sendRequest({
+            source: 'getPatronDeviceInformation',
+            config: {
+                method: 'get',
+                url: `/api/PatronDevice/get-infor`,
+                params: patronDeviceId ? { patronDeviceId } : undefined
+            },
+            decoder: deviceMappingSchema,
+            options: withPolicy(policies.device, options)
+        }),
+
+    // Tablet: open a pairing session whose code is shown as a QR code
+    startPairing: (options?: RequestOptions): Promise<PairingSession> =>
+        sendRequest({
+            source: 'startPairing',
+            config: { method: 'post', url: '/api/DevicePairing/start' },
+            decoder: pairingSessionSchema,
+            options: withPolicy(policies.device, options)
+        }),
+
+    // Staff: claim a tablet's pairing code; answers with the mapping now in effect
+    claimPairing: (request: ClaimPairingRequest, options?: RequestOptions): Promise<DeviceMappingResponse> =>
+        sendRequest({
+            source: 'claimPairing',
+            config: { method: 'post', url: '/api/DevicePairing/claim', data: request },
+            decoder: deviceMappingSchema,
+            options: withPolicy(policies.device, options)
+        }),
+
+    // Public key that remote commands are signed with
+    getCommandSigningKey: (options?: RequestOptions): Promise<CommandSigningKeyResponse> =>
+        sendRequest({
+            source: 'getCommandSigningKey',
+            config: { method: 'get', url: '/api/PatronDevice/command-signing-key' },
+            decoder: commandSigningKeySchema,
+            options: withPolicy(policies.device, options)
+        }),
+
+    // Branded slides shown between patrons, localized for the given language
+    getStandbyContent: (language: string, options?: RequestOptions): Promise<StandbyContentResponse> =>
+        sendRequest({
+            source: 'getStandbyContent',
+            config: { method: 'get', url: '/api/PatronDevice/standby-content', params: { language } },
+            decoder: standbyContentSchema,
+            options: withPolicy(policies.document, options)
+        }),
+
+    // Kiosk mode: check the staff PIN that unlocks admin routes; the PIN is never stored on the tablet
+    verifyStaffPin: (request: StaffPinVerifyRequest, options?: RequestOptions): Promise<StaffPinVerifyResponse> =>
+        sendRequest({
+            source: 'verifyStaffPin',
+            config: { method: 'post', url: '/api/PatronDevice/verify-staff-pin', data: request },
+            decoder: staffPinVerifySchema,
+            options: withPolicy(policies.device, options)
+        }),
+
+    // Resolves once the server stored the report; a rejection throws
+    uploadDiagnostics: async (report: DiagnosticsReport, options?: RequestOptions): Promise<void> => {
+        await sendRequest({
+            source: 'uploadDiagnostics',
+            config: { method: 'post', url: '/api/PatronDevice/diagnostics', data: report },
+            decoder: diagnosticsUploadResultSchema,
+            options: withPolicy(policies.submit, options)
+        });
     },
 
-    submitPdpOrHtpNotificationSignature: async (data: NotificationConfirmRequest): Promise<boolean> => {
-        try {
-            const response = await api.post('/api/CustomerSign/submit-notification-signature', data);
-            return unwrapApiEnvelope(response);
-        } catch (error) {
-            console.error('Error submitting notification signature:', error);
-            throw error;
-        }
+    // Resolves once the server stored the signature; a rejection throws
+    submitPdpOrHtpNotificationSignature: async (data: NotificationConfirmRequest, options?: SubmitOptions): Promise<boolean> => {
+        await sendRequest({
+            source: 'submitPdpOrHtpNotificationSignature',
+            config: { method: 'post', url: '/api/CustomerSign/submit-notification-signature', data },
+            decoder: notificationSubmitResultSchema,
+            options: submitOptions(options)
+        });
+        return true;
     }
-};
\ No newline at end of file
+};
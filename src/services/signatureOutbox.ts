@@ -0,0 +1,254 @@
+import { ApiError } from './httpClient';
+import { signatureApiService } from './signatureApiService';
+import signalRService from './signalRService';
+import type { NotificationConfirmRequest, SignatureConfirmRequest } from '../type';
+import { openIndexedDb, requestToPromise } from '../utils/indexedDb';
+
+export type OutboxSubmission =
+    | { endpoint: 'submitSignature'; request: SignatureConfirmRequest }
+    | { endpoint: 'submitPdpOrHtpNotificationSignature'; request: NotificationConfirmRequest };
+
+// Signature request a submission belongs to, so staff can be told when it cannot be delivered
+export interface OutboxOrigin {
+    requestId: string;
+    sessionId: string;
+}
+
+export type OutboxEntry = OutboxSubmission & {
+    // Sent as the Idempotency-Key header on every attempt so the server can drop duplicates
+    idempotencyKey: string;
+    origin?: OutboxOrigin;
+    createdAt: string;
+    attempts: number;
+    // Epoch milliseconds before which the entry is not retried
+    nextAttemptAt: number;
+    lastError?: string;
+    // Set when the server rejects the submission, or once MAX_ATTEMPTS retryable failures are reached.
+    // The entry is kept for diagnostics and staff are notified, but it is no longer retried.
+    failed?: boolean;
+};
+
+export interface OutboxSubmitResult {
+    status: 'sent' | 'rejected' | 'queued';
+    message?: string;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const DB_NAME = 'signature-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'submissions';
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+// Reported in the heartbeat health snapshot
+const LAST_DELIVERED_STORAGE_KEY = 'signature_last_delivered_at';
+
+// Anything but a refusal of the submission itself: network failures, timeouts, server errors and an
+// expired device session. A request that got through may have been stored, which the idempotency key
+// makes safe to resend.
+export const isRetryableError = (error: unknown): boolean =>
+    error instanceof ApiError && error.kind !== 'validation' && error.kind !== 'cancelled';
+
+/**
+ * Signature Outbox Service
+ * Persists signature submissions that could not be delivered in IndexedDB and retries them with backoff.
+ */
+export class SignatureOutboxService {
+    private dbPromise?: Promise<IDBDatabase>;
+    private listeners = new Set<OutboxListener>();
+    private isFlushing = false;
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = openIndexedDb(DB_NAME, DB_VERSION, { [STORE_NAME]: 'idempotencyKey' });
+            // Allow a later call to try again if opening failed
+            this.dbPromise.catch(() => {
+                this.dbPromise = undefined;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.openDatabase();
+        const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+        return requestToPromise(run(store));
+    }
+
+    private recordDelivery() {
+        localStorage.setItem(LAST_DELIVERED_STORAGE_KEY, new Date().toISOString());
+    }
+
+    /**
+     * When a signature last reached the server, directly or from the outbox
+     */
+    getLastDeliveredAt(): string | null {
+        return localStorage.getItem(LAST_DELIVERED_STORAGE_KEY);
+    }
+
+    // Tell the staff device a signature the patron was told would be sent is not going to arrive
+    private reportFailure(entry: OutboxEntry) {
+        signalRService.reportSigningProgress({
+            staffDeviceId: entry.request.staffDeviceId,
+            requestId: entry.origin?.requestId ?? '',
+            sessionId: entry.origin?.sessionId ?? '',
+            patronId: entry.request.patronId,
+            stage: 'submit-failed',
+            documentType: entry.request.documentType,
+            message: `Saved signature could not be delivered: ${entry.lastError ?? 'unknown error'}`,
+            timestamp: new Date().toISOString()
+        }).catch(error => {
+            console.error('❌ Failed to report undelivered signature to staff:', entry.idempotencyKey, error);
+        });
+    }
+
+    private async notify() {
+        const entries = await this.getEntries();
+        this.listeners.forEach(listener => listener(entries));
+    }
+
+    /**
+     * Submit with an idempotency key, keeping the submission in the outbox when the network or server fails.
+     * Resolves to 'queued' when the submission was saved for a later retry.
+     */
+    async submit(submission: OutboxSubmission, idempotencyKey: string, origin?: OutboxOrigin): Promise<OutboxSubmitResult> {
+        try {
+            const result = await sendSubmission(submission, idempotencyKey);
+            if (result.success) this.recordDelivery();
+            return { status: result.success ? 'sent' : 'rejected', message: result.message };
+        } catch (error) {
+            if (!isRetryableError(error)) throw error;
+
+            console.warn('📥 Signature not delivered, saving to outbox:', idempotencyKey, error);
+            await this.enqueue(submission, idempotencyKey, error, origin);
+            return { status: 'queued' };
+        }
+    }
+
+    /**
+     * Save a submission for a later retry
+     */
+    async enqueue(submission: OutboxSubmission, idempotencyKey: string, error?: unknown, origin?: OutboxOrigin): Promise<void> {
+        const entry: OutboxEntry = {
+            ...submission,
+            idempotencyKey,
+            origin,
+            createdAt: new Date().toISOString(),
+            attempts: 0,
+            // Due right away, so the next flush (e.g. when connectivity returns) picks it up
+            nextAttemptAt: Date.now(),
+            lastError: error ? String(error) : undefined
+        };
+        await this.withStore('readwrite', store => store.put(entry));
+        await this.notify();
+    }
+
+    async getEntries(): Promise<OutboxEntry[]> {
+        try {
+            const entries = await this.withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+            return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        } catch (error) {
+            console.error('❌ Failed to read signature outbox:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Retry every due entry, oldest first. Stops at the first retryable failure since the rest would fail too.
+     * Never rejects; failures are recorded on the entries.
+     */
+    async flush(): Promise<void> {
+        if (this.isFlushing) return;
+        this.isFlushing = true;
+
+        try {
+            const now = Date.now();
+            const due = (await this.getEntries()).filter(entry => !entry.failed && entry.nextAttemptAt <= now);
+
+            for (const entry of due) {
+                let error: unknown;
+                let retryable = false;
+                try {
+                    const result = await sendSubmission(entry, entry.idempotencyKey);
+                    if (!result.success) {
+                        error = result.message || 'Server rejected the signature';
+                    }
+                } catch (sendError) {
+                    error = sendError;
+                    // A refusal of the submission will not change on a resend
+                    retryable = isRetryableError(sendError);
+                }
+
+                if (error !== undefined) {
+                    const attempts = entry.attempts + 1;
+                    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+                    const updated: OutboxEntry = {
+                        ...entry,
+                        attempts,
+                        nextAttemptAt: Date.now() + delay,
+                        lastError: String(error),
+                        failed: !retryable || attempts >= MAX_ATTEMPTS
+                    };
+
+                    try {
+                        await this.withStore('readwrite', store => store.put(updated));
+                    } catch (storeError) {
+                        console.error('❌ Failed to update outbox entry:', entry.idempotencyKey, storeError);
+                    }
+
+                    if (updated.failed) {
+                        console.error('❌ Outbox signature undeliverable after', attempts, 'attempts:', entry.idempotencyKey, error);
+                        this.reportFailure(updated);
+                    } else {
+                        console.warn(`⚠️ Outbox retry ${attempts} failed, next in ${Math.round(delay / 1000)}s:`, entry.idempotencyKey);
+                    }
+
+                    if (retryable) break;
+                    continue;
+                }
+
+                this.recordDelivery();
+                console.log('✅ Outbox signature delivered:', entry.idempotencyKey);
+                try {
+                    await this.withStore('readwrite', store => store.delete(entry.idempotencyKey));
+                } catch (storeError) {
+                    // Resending it later is harmless: the server drops it by its idempotency key
+                    console.error('❌ Failed to remove delivered outbox entry:', entry.idempotencyKey, storeError);
+                }
+            }
+        } finally {
+            this.isFlushing = false;
+            await this.notify();
+        }
+    }
+
+    /**
+     * Listen for outbox changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: OutboxListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+/**
+ * Send a submission through the endpoint it names
+ */
+async function sendSubmission(
+    submission: OutboxSubmission,
+    idempotencyKey: string
+): Promise<{ success: boolean; message?: string }> {
+    if (submission.endpoint === 'submitSignature') {
+        const response = await signatureApiService.submitSignature(submission.request, { idempotencyKey });
+        return { success: !!response?.success, message: response?.message };
+    }
+    const accepted = await signatureApiService.submitPdpOrHtpNotificationSignature(submission.request, { idempotencyKey });
+    return { success: !!accepted };
+}
+
+export const signatureOutbox = new SignatureOutboxService();
+export default signatureOutbox;
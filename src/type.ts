@@ -23,11 +23,13 @@ export interface NotificationState {
     severity: 'success' | 'error' | 'warning' | 'info';
 }
 
-// SignalR Message types
+// SignalR Message types - decoded at runtime by utils/messageSchemas
 export interface PatronUpdateMessage {
     patronId: number;
+    membershipId?: string;
+    status: string;
     message: string;
-    status: 'success' | 'error' | 'info' | 'warning';
+    // ISO timestamp as sent by the hub
     timestamp: string;
 }
 
@@ -36,6 +38,7 @@ export interface ValidationResult {
     errors?: string[];
     warnings?: string[];
     patronId?: number;
+    data?: unknown;
 }
 
 export interface SignalRError {
@@ -53,11 +56,56 @@ export interface ConnectionState {
     reconnectAttempts?: number;
 }
 
+// Wrapper the backend puts around every REST response
+export interface ApiEnvelope<T> {
+    success: boolean;
+    status?: number;
+    message?: string;
+    data: T;
+}
+
+// Device authentication
+export interface DeviceProvisionRequest {
+    ProvisioningCode: string;
+    DeviceName: string;
+    MacAddress: string;
+    IpAddress: string;
+}
+
+export interface DeviceTokenRefreshRequest {
+    RefreshToken: string;
+}
+
+export interface DeviceTokenResponse {
+    accessToken: string;
+    refreshToken: string;
+    // ISO timestamp after which accessToken is rejected
+    expiresAt: string;
+}
+
+export interface DeviceRevocation {
+    reason?: string;
+}
+
+// Proof that the registering device holds the private key behind its device ID
+export interface DeviceIdentityAssertion {
+    DeviceId: string;
+    // Base64 SPKI public key
+    PublicKey: string;
+    Timestamp: string;
+    Nonce: string;
+    // Base64 ECDSA P-256/SHA-256 signature over `${DeviceId}.${Timestamp}.${Nonce}`
+    Signature: string;
+}
+
 export interface RegisterDeviceRequest {
     DeviceName: string;
+    // Legacy: derived from DeviceId, kept for servers that still key devices on it
     MacAddress: string;
     IpAddress: string;
     StaffDeviceId?: string;
+    DeviceId?: string;
+    IdentityAssertion?: DeviceIdentityAssertion;
 }
 
 export interface RegisterDeviceResponse {
@@ -93,7 +141,91 @@ export interface GetOnlineDevicesResponse {
     macAddress: string;
     ipAddress: string;
     lastHeartbeat: string;
-    staffDeviceId?: string
+    staffDeviceId?: string;
+    // Health reported with the device's latest heartbeat, when the server has one
+    health?: DeviceHealthSnapshot;
+}
+
+// Fleet monitoring: pushed to staff clients that joined the fleet monitor
+export interface DeviceStatusChange {
+    deviceId: string;
+    isOnline: boolean;
+    isAvailable: boolean;
+    lastHeartbeat?: string;
+    health?: DeviceHealthSnapshot;
+    changedAt: string;
+}
+
+// Remote commands: issued by support staff, signed by the server, executed and acknowledged by the tablet
+export type RemoteCommandType =
+    | 'reload'
+    | 'clear-caches'
+    | 're-register'
+    | 'set-language'
+    | 'show-maintenance'
+    | 'end-maintenance'
+    | 'upload-diagnostics';
+
+export interface RemoteCommand {
+    commandId: string;
+    // Device identity ID the command was issued for
+    targetDeviceId: string;
+    type: RemoteCommandType;
+    // set-language
+    language?: string;
+    // show-maintenance
+    message?: string;
+    issuedBy: string;
+    issuedAt: string;
+    expiresAt: string;
+    // Base64 ECDSA P-256/SHA-256 signature (raw r||s) by the command signing key, see canonicalRemoteCommand
+    signature: string;
+}
+
+export type RemoteCommandStatus = 'succeeded' | 'failed' | 'rejected';
+
+export interface RemoteCommandAck {
+    CommandId: string;
+    Status: RemoteCommandStatus;
+    Message?: string;
+    CompletedAt: string;
+}
+
+export interface CommandSigningKeyResponse {
+    keyId: string;
+    // Base64 SPKI
+    publicKey: string;
+}
+
+export interface StandbySlide {
+    id: string;
+    imageUrl?: string;
+    // Already localized by the server for the requested language
+    title?: string;
+    message?: string;
+    // Overrides the configured rotation interval for this slide
+    durationSeconds?: number;
+}
+
+export interface StandbyContentResponse {
+    slides: StandbySlide[];
+}
+
+export interface StaffPinVerifyRequest {
+    DeviceId: string;
+    Pin: string;
+}
+
+export interface StaffPinVerifyResponse {
+    valid: boolean;
+}
+
+export interface DiagnosticsReport {
+    DeviceId: string;
+    CommandId: string;
+    CollectedAt: string;
+    // Free-form snapshot of device state, logs and recent failures
+    Report: Record<string, unknown>;
 }
 
 // Signature Request types
@@ -108,6 +240,63 @@ export interface SignatureMessageData {
     sessionId: string;
     staffDeviceId: string;
     patronData?: PatronDataReceived;
+    // Ordered documents to sign for this visit; when absent the tablet's own workflow applies
+    documents?: SignatureDocumentItem[];
+}
+
+// Delivery states the tablet reports back to staff for a pushed signature request
+export type SignatureAckStatus = 'received' | 'displayed' | 'declined' | 'expired';
+
+export interface SignatureRequestAck {
+    requestId: string;
+    sessionId: string;
+    status: SignatureAckStatus;
+    // ISO time the status was reached on the tablet, not when the ack was delivered
+    timestamp: string;
+}
+
+// Staff withdrew a pushed request (wrong patron, mistaken push, ...)
+export interface SignatureRequestCancellation {
+    requestId: string;
+    sessionId: string;
+    reason?: string;
+}
+
+// Staff withdrew a pushed request and pushed a corrected one in its place
+export interface SignatureRequestReplacement {
+    previousRequestId: string;
+    previousSessionId: string;
+    reason?: string;
+    request: SignatureMessageData;
+}
+
+// Steps the patron takes on the tablet, streamed live to the staff device that pushed the request
+export type SigningProgressStage =
+    | 'document-opened'
+    | 'scrolled-to-bottom'
+    | 'drawing-started'
+    | 'document-agreed'
+    | 'submitted'
+    | 'submit-failed';
+
+export interface SigningProgressEvent {
+    // Staff device the hub forwards the event to
+    staffDeviceId: string;
+    requestId: string;
+    sessionId: string;
+    patronId: number;
+    stage: SigningProgressStage;
+    documentType?: number;
+    // Error message for submit-failed
+    message?: string;
+    timestamp: string;
+}
+
+export interface SignatureDocumentItem {
+    documentType: number;
+    title: string;
+    required: boolean;
+    language?: string;
 }
 
 export class PatronDataReceived {
@@ -120,12 +309,51 @@ export class PatronDataReceived {
     nationality?: string;
 }
 
+// Vector signature data captured alongside the PNG data URL
+export interface SignaturePoint {
+    x: number;
+    y: number;
+    // Milliseconds since the first point of the signature
+    t: number;
+    // 0..1 when the input device reports pressure (pen/touch), omitted for mouse input
+    pressure?: number;
+}
+
+export interface SignatureStroke {
+    points: SignaturePoint[];
+}
+
+export interface SignatureStrokes {
+    // Canvas size the coordinates refer to
+    width: number;
+    height: number;
+    // Epoch milliseconds of the first point
+    startedAt: number;
+    strokes: SignatureStroke[];
+}
+
+// Quality metrics computed on the device and reported with each submitted signature
+export interface SignatureQualityMetrics {
+    strokeCount: number;
+    pointCount: number;
+    // Canvas pixels
+    pathLength: number;
+    boundingBoxWidth: number;
+    boundingBoxHeight: number;
+    // Estimated fraction of the canvas covered by ink, 0-1
+    inkCoverage: number;
+    durationMs: number;
+}
+
 export interface SignatureConfirmRequest {
     sessionId: string;
     patronId: number;
     signature: string;
     staffDeviceId: string;
     documentType: number;
+    strokes?: SignatureStrokes;
+    signatureSvg?: string;
+    signatureMetrics?: SignatureQualityMetrics;
 }
 
 export interface SignatureConfirmResponse {
@@ -161,8 +389,22 @@ export interface CurrentHostNameResponse {
 export interface DeviceMappingResponse {
     id: number;
     location: string;
-    patronDevice: PatronDeviceData;
-    staffDevice: StaffDeviceData;
+    patronDevice?: PatronDeviceData;
+    staffDevice?: StaffDeviceData;
+}
+
+// Device pairing: the tablet shows a short-lived code, the staff device claims it
+export interface PairingSession {
+    pairingId: string;
+    // Numeric, typed by staff when scanning is not possible
+    code: string;
+    expiresAt: string;
+}
+
+export interface ClaimPairingRequest {
+    Code: string;
+    StaffDeviceId: string;
+    StaffDeviceName: string;
 }
 
 export interface PatronDeviceData {
@@ -179,11 +421,49 @@ export interface StaffDeviceData {
     IsAvailable: boolean;
 }
 
+// Heartbeat over the hub: the tablet reports in, the server answers with its view of the device
+export interface DeviceHealthSnapshot {
+    collectedAt: string;
+    isOnline: boolean;
+    visibility: DocumentVisibilityState;
+    uptimeSeconds: number;
+    appVersion: string;
+    // Battery API, where available; level is 0-1
+    batteryLevel?: number;
+    isCharging?: boolean;
+    // navigator.connection effective type, e.g. '4g'
+    connectionType?: string;
+    storageUsedBytes?: number;
+    storageQuotaBytes?: number;
+    signalRReconnects: number;
+    lastSuccessfulSubmitAt?: string;
+}
+
+export interface DeviceHeartbeat {
+    DeviceId: string;
+    // Increments per heartbeat so a late reply is never mistaken for the current one
+    Sequence: number;
+    SentAt: string;
+    Health: DeviceHealthSnapshot;
+}
+
+export interface DeviceHeartbeatReply {
+    sequence: number;
+    isOnline: boolean;
+    isAvailable: boolean;
+    // Absent when the tablet is not mapped to a staff device
+    staffDevice?: StaffDeviceData;
+    serverTime: string;
+}
+
 export interface NotificationConfirmRequest {
     patronId: number;
     signature: string;
     staffDeviceId: string;
     documentType: number;
+    strokes?: SignatureStrokes;
+    signatureSvg?: string;
+    signatureMetrics?: SignatureQualityMetrics;
 }
 
 export const DocumentTypes = {
@@ -67,6 +67,10 @@ export class CacheBuster {
       'user_preferences',
       'auth_token',
       'language_setting',
+      // Clearing caches must not take a tablet out of kiosk mode
+      'kiosk_enabled',
+      // The MAC a tablet registered with; losing it would make it a new device on the server
+      'device_mac_address',
       this.CACHE_VERSION_KEY
     ];
     
@@ -0,0 +1,61 @@
+/**
+ * Short two-tone chime synthesized with the Web Audio API, so no sound file has to be cached
+ */
+
+// Frequency (Hz) and start offset (s) of each tone
+const CHIME_TONES = [
+    { frequency: 880, at: 0 },
+    { frequency: 659.25, at: 0.18 }
+];
+const TONE_DURATION = 0.9;
+const PEAK_GAIN = 0.25;
+
+let audioContext: AudioContext | undefined;
+
+const getAudioContext = (): AudioContext | undefined => {
+    if (!audioContext) {
+        const AudioContextClass = window.AudioContext
+            ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+        if (!AudioContextClass) return undefined;
+        audioContext = new AudioContextClass();
+    }
+    return audioContext;
+};
+
+/**
+ * Browsers keep audio suspended until the page has been touched. Resume it on the next touch so a
+ * chime for a request arriving later can play. Returns a function that removes the listener.
+ */
+export const primeChime = (): (() => void) => {
+    const resume = () => {
+        getAudioContext()?.resume().catch(() => undefined);
+    };
+    document.addEventListener('pointerdown', resume, { once: true });
+    return () => document.removeEventListener('pointerdown', resume);
+};
+
+export const playChime = (): void => {
+    const context = getAudioContext();
+    if (!context) return;
+
+    if (context.state === 'suspended') {
+        // Still locked by the autoplay policy; nothing will be heard until the tablet is touched
+        context.resume().catch(() => undefined);
+    }
+
+    const start = context.currentTime;
+    CHIME_TONES.forEach(({ frequency, at }) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.type = 'sine';
+        oscillator.frequency.value = frequency;
+
+        gain.gain.setValueAtTime(0, start + at);
+        gain.gain.linearRampToValueAtTime(PEAK_GAIN, start + at + 0.02);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + at + TONE_DURATION);
+
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start + at);
+        oscillator.stop(start + at + TONE_DURATION);
+    });
+};
@@ -0,0 +1,57 @@
+import { CacheBuster } from './cacheBuster';
+import signalRService from '../services/signalRService';
+import signatureOutbox from '../services/signatureOutbox';
+import type { DeviceHealthSnapshot } from '../type';
+
+// Battery Status and Network Information APIs; not in the DOM typings and missing on some browsers
+interface BatteryManager {
+    level: number;
+    charging: boolean;
+}
+
+interface NavigatorWithDeviceApis extends Navigator {
+    getBattery?: () => Promise<BatteryManager>;
+    connection?: { effectiveType?: string };
+}
+
+const readBattery = async (nav: NavigatorWithDeviceApis): Promise<Pick<DeviceHealthSnapshot, 'batteryLevel' | 'isCharging'>> => {
+    if (!nav.getBattery) return {};
+    try {
+        const battery = await nav.getBattery();
+        return { batteryLevel: battery.level, isCharging: battery.charging };
+    } catch {
+        return {};
+    }
+};
+
+const readStorage = async (): Promise<Pick<DeviceHealthSnapshot, 'storageUsedBytes' | 'storageQuotaBytes'>> => {
+    if (!navigator.storage?.estimate) return {};
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        return { storageUsedBytes: usage, storageQuotaBytes: quota };
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Collect the health snapshot sent with every heartbeat.
+ * Optional fields are left out where the browser does not expose them.
+ */
+export const collectHealthSnapshot = async (): Promise<DeviceHealthSnapshot> => {
+    const nav = navigator as NavigatorWithDeviceApis;
+    const [battery, storage] = await Promise.all([readBattery(nav), readStorage()]);
+
+    return {
+        collectedAt: new Date().toISOString(),
+        isOnline: nav.onLine,
+        visibility: document.visibilityState,
+        uptimeSeconds: Math.round(performance.now() / 1000),
+        appVersion: CacheBuster.getCurrentVersion(),
+        connectionType: nav.connection?.effectiveType,
+        signalRReconnects: signalRService.getReconnectCount(),
+        lastSuccessfulSubmitAt: signatureOutbox.getLastDeliveredAt() ?? undefined,
+        ...battery,
+        ...storage
+    };
+};
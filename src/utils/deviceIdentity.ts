@@ -0,0 +1,133 @@
+import { openIndexedDb, requestToPromise } from './indexedDb';
+import type { DeviceIdentityAssertion } from '../type';
+
+/**
+ * Device identity
+ * A P-256 key pair is generated once and kept in IndexedDB with a non-extractable private key.
+ * The device ID is derived from the public key, so it survives browser updates and needs no network,
+ * and registration carries an assertion signed with the private key to prove the device holds it.
+ */
+
+const DB_NAME = 'device-identity';
+const DB_VERSION = 1;
+const KEY_STORE = 'keys';
+const KEY_PAIR_NAME = 'device';
+// Used only when Web Crypto is unavailable (insecure context)
+const FALLBACK_ID_STORAGE_KEY = 'device_identity_fallback_id';
+
+const SIGNING_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface DeviceIdentity {
+    deviceId: string;
+    // Base64 SPKI; empty when Web Crypto is unavailable
+    publicKey: string;
+    // Stable MAC-shaped value for servers that still key devices on MacAddress
+    legacyMacAddress: string;
+}
+
+interface LoadedIdentity extends DeviceIdentity {
+    privateKey?: CryptoKey;
+}
+
+let identityPromise: Promise<LoadedIdentity> | undefined;
+
+const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes));
+
+/**
+ * Format the first six bytes of the device ID as a locally administered unicast MAC
+ */
+const toLegacyMacAddress = (idBytes: Uint8Array): string => {
+    const bytes = Array.from(idBytes.slice(0, 6));
+    bytes[0] = (bytes[0] | 0x02) & 0xfe;
+    return bytes.map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(':');
+};
+
+const loadOrCreateKeyPair = async (): Promise<CryptoKeyPair> => {
+    const db = await openIndexedDb(DB_NAME, DB_VERSION, { [KEY_STORE]: null });
+    try {
+        const existing = await requestToPromise(
+            db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(KEY_PAIR_NAME) as IDBRequest<CryptoKeyPair | undefined>
+        );
+        if (existing) return existing;
+
+        const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+        await requestToPromise(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(keyPair, KEY_PAIR_NAME));
+        console.log('🔐 Generated device identity key pair');
+        return keyPair;
+    } finally {
+        db.close();
+    }
+};
+
+const loadFallbackIdentity = (): LoadedIdentity => {
+    console.warn('⚠️ Web Crypto unavailable (insecure context); device identity cannot be signed');
+
+    let hex = localStorage.getItem(FALLBACK_ID_STORAGE_KEY);
+    if (!hex) {
+        hex = toHex(crypto.getRandomValues(new Uint8Array(16)));
+        localStorage.setItem(FALLBACK_ID_STORAGE_KEY, hex);
+    }
+
+    const bytes = Uint8Array.from(hex.match(/.{2}/g) ?? [], pair => parseInt(pair, 16));
+    return { deviceId: hex, publicKey: '', legacyMacAddress: toLegacyMacAddress(bytes) };
+};
+
+const loadIdentity = async (): Promise<LoadedIdentity> => {
+    if (!globalThis.crypto?.subtle) return loadFallbackIdentity();
+
+    const keyPair = await loadOrCreateKeyPair();
+    const spki = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', spki));
+    const idBytes = digest.slice(0, 16);
+
+    return {
+        deviceId: toHex(idBytes),
+        publicKey: toBase64(spki),
+        legacyMacAddress: toLegacyMacAddress(idBytes),
+        privateKey: keyPair.privateKey
+    };
+};
+
+const getLoadedIdentity = (): Promise<LoadedIdentity> => {
+    if (!identityPromise) {
+        identityPromise = loadIdentity();
+        identityPromise.catch(() => {
+            identityPromise = undefined;
+        });
+    }
+    return identityPromise;
+};
+
+/**
+ * This device's stable identity, created on first use
+ */
+export const getDeviceIdentity = async (): Promise<DeviceIdentity> => {
+    const { deviceId, publicKey, legacyMacAddress } = await getLoadedIdentity();
+    return { deviceId, publicKey, legacyMacAddress };
+};
+
+/**
+ * Sign a fresh identity assertion; null when the device has no signing key (insecure context)
+ */
+export const createIdentityAssertion = async (): Promise<DeviceIdentityAssertion | null> => {
+    const identity = await getLoadedIdentity();
+    if (!identity.privateKey) return null;
+
+    const timestamp = new Date().toISOString();
+    const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    // The server verifies the signature over exactly this string
+    const payload = `${identity.deviceId}.${timestamp}.${nonce}`;
+    const signature = await crypto.subtle.sign(SIGNING_ALGORITHM, identity.privateKey, new TextEncoder().encode(payload));
+
+    return {
+        DeviceId: identity.deviceId,
+        PublicKey: identity.publicKey,
+        Timestamp: timestamp,
+        Nonce: nonce,
+        Signature: toBase64(new Uint8Array(signature))
+    };
+};
@@ -1,5 +1,10 @@
+import { getDeviceIdentity } from './deviceIdentity';
+
 export interface DeviceInfo {
     deviceName: string;
+    // Stable ID derived from the device key pair (see deviceIdentity)
+    deviceId: string;
+    // Legacy MAC-shaped ID: the one the tablet first registered with, else derived from deviceId
     macAddress: string;
     ipAddress: string;
     staffDeviceId: string;
@@ -7,30 +12,32 @@ export interface DeviceInfo {
 
 /**
  * Get device information for registration
- * In a real iOS/Android app, this would use native APIs
- * For web, we simulate with browser fingerprinting and store consistently
+ * Identity comes from the device key pair; name and IP are stored for consistency across sessions
  */
-export const getDeviceInfo = (): Promise<DeviceInfo> => {
-    return new Promise((resolve) => {
-        // Generate a consistent device name (store in localStorage to persist across sessions)
-        const deviceName = getOrCreateDeviceName();
-        
-        // In a real mobile app, you would get the actual MAC address
-        // For web simulation, generate a consistent MAC-like identifier
-        const macAddress = generateMacAddress();
-        
-        // Get IP address (in real app this would be the actual IP)
-        getLocalIPAddress().then((ipAddress) => {
-            const staffDeviceId = getStaffDeviceId();
-            
-            resolve({
-                deviceName,
-                macAddress,
-                ipAddress,
-                staffDeviceId
-            });
-        });
-    });
+export const getDeviceInfo = async (): Promise<DeviceInfo> => {
+    // Generate a consistent device name (store in localStorage to persist across sessions)
+    const deviceName = getOrCreateDeviceName();
+
+    const { deviceId, legacyMacAddress } = await getDeviceIdentity();
+    // A tablet that registered before the key pair existed keeps reporting its old MAC,
+    // so the server still recognises it; only new tablets get one derived from the key
+    let macAddress = localStorage.getItem('device_mac_address');
+    if (!macAddress) {
+        macAddress = legacyMacAddress;
+        localStorage.setItem('device_mac_address', macAddress);
+    }
+
+    // Get IP address (in real app this would be the actual IP)
+    const ipAddress = await getLocalIPAddress();
+    const staffDeviceId = getStaffDeviceId();
+
+    return {
+        deviceName,
+        deviceId,
+        macAddress,
+        ipAddress,
+        staffDeviceId
+    };
 };
 
 /**
@@ -151,131 +158,6 @@ const generateConsistentHash = (input: string): string => {
     return Math.abs(hash).toString(36).substring(0, 6).toUpperCase();
 };
 
-/**
- * Generate a MAC address-like identifier
- * In real app, this would be the actual MAC address
- * For web, try to get network info or generate consistent identifier
- */
-const generateMacAddress = (): string => {
-    // Get or create a stored MAC address for consistency
-    const storedMac = localStorage.getItem('device_mac_address');
-    if (storedMac) {
-        return storedMac;
-    }
-    
-    // Try to get network information if available
-    const networkMac = getNetworkBasedMac();
-    if (networkMac) {
-        localStorage.setItem('device_mac_address', networkMac);
-        return networkMac;
-    }
-    
-    // Generate consistent MAC based on device characteristics
-    const deviceFingerprint = getDeviceFingerprint();
-    const mac = generateConsistentMacFromFingerprint(deviceFingerprint);
-    
-    // Store for consistency across app sessions
-    localStorage.setItem('device_mac_address', mac);
-    return mac;
-};
-
-/**
- * Try to get network-based MAC info
- */
-const getNetworkBasedMac = (): string | null => {
-    try {
-        // This is limited in browsers due to security, but we can try
-        // In a real native app, you would use actual network APIs
-        
-        // Generate based on connection info if available
-        const connection = (navigator as any).connection || 
-                          (navigator as any).mozConnection || 
-                          (navigator as any).webkitConnection;
-        
-        if (connection && connection.effectiveType) {
-            // Use connection characteristics to generate consistent MAC
-            const connectionInfo = `${connection.effectiveType}-${connection.downlink || 'unknown'}`;
-            return generateMacFromString(connectionInfo);
-        }
-        
-        return null;
-    } catch (error) {
-        return null;
-    }
-};
-
-/**
- * Get device fingerprint for consistent MAC generation
- */
-const getDeviceFingerprint = (): string => {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const txt = 'Device fingerprint for MAC generation';
-    
-    if (ctx) {
-        ctx.textBaseline = 'top';
-        ctx.font = '14px Arial';
-        ctx.fillText(txt, 2, 2);
-    }
-    
-    const fingerprint = [
-        navigator.platform,
-        navigator.userAgent,
-        screen.width + 'x' + screen.height,
-        screen.colorDepth,
-        new Date().getTimezoneOffset(),
-        !!window.sessionStorage,
-        !!window.localStorage,
-        canvas.toDataURL()
-    ].join('|');
-    
-    return fingerprint;
-};
-
-/**
- * Generate MAC address from string input
- */
-const generateMacFromString = (input: string): string => {
-    // Create hash from input
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-        const char = input.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash;
-    }
-    
-    // Convert to MAC format
-    const hex = Math.abs(hash).toString(16).padStart(12, '0');
-    const mac = hex.match(/.{2}/g)?.join(':').toUpperCase() || '00:00:00:00:00:00';
-    
-    // Ensure it's a valid MAC format (6 pairs)
-    const pairs = mac.split(':');
-    while (pairs.length < 6) {
-        pairs.push('00');
-    }
-    
-    return pairs.slice(0, 6).join(':');
-};
-
-/**
- * Generate consistent MAC from device fingerprint
- */
-const generateConsistentMacFromFingerprint = (fingerprint: string): string => {
-    // Use multiple hashes to create 6 pairs
-    const hashes = [];
-    for (let i = 0; i < 6; i++) {
-        let hash = 0;
-        const saltedInput = fingerprint + i.toString();
-        for (let j = 0; j < saltedInput.length; j++) {
-            hash = ((hash << 5) - hash) + saltedInput.charCodeAt(j);
-            hash = hash & hash;
-        }
-        hashes.push((Math.abs(hash) % 256).toString(16).padStart(2, '0').toUpperCase());
-    }
-    
-    return hashes.join(':');
-};
-
 /**
  * Get local IP address and hostname
  * In real app, this would be more accurate
@@ -297,18 +179,10 @@ const getLocalIPAddress = (): Promise<string> => {
                 resolve(ipOrHostname);
             })
             .catch(() => {
-                // Fallback to WebRTC method
-                getIPViaWebRTC()
-                    .then(ip => {
-                        localStorage.setItem('device_ip_address', ip);
-                        resolve(ip);
-                    })
-                    .catch(() => {
-                        // Final fallback
-                        const fallbackIP = `192.168.1.${Math.floor(Math.random() * 254) + 1}`;
-                        localStorage.setItem('device_ip_address', fallbackIP);
-                        resolve(fallbackIP);
-                    });
+                // Final fallback
+                const fallbackIP = `192.168.1.${Math.floor(Math.random() * 254) + 1}`;
+                localStorage.setItem('device_ip_address', fallbackIP);
+                resolve(fallbackIP);
             });
     });
 };
@@ -327,76 +201,10 @@ const getHostnameOrIP = (): Promise<string> => {
             return;
         }
 
-        // Method 2: Try to get actual IP via external service
-        getExternalIP()
+        // Method 2: Try the local network IP via WebRTC
+        getIPViaWebRTC()
             .then(ip => resolve(ip))
-            .catch(() => {
-                // Method 3: Try WebRTC method
-                getIPViaWebRTC()
-                    .then(ip => resolve(ip))
-                    .catch(() => reject('No IP found'));
-            });
-    });
-};
-
-/**
- * Get external IP address via external service
- */
-const getExternalIP = (): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        // Try multiple services for reliability
-        const services = [
-            'https://api.ipify.org?format=text',
-            'https://ipapi.co/ip/',
-            'https://httpbin.org/ip'
-        ];
-
-        let attempts = 0;
-        
-        const tryNextService = () => {
-            if (attempts >= services.length) {
-                reject('All services failed');
-                return;
-            }
-
-            const service = services[attempts];
-            attempts++;
-
-            fetch(service, { 
-                method: 'GET'
-            })
-            .then(response => {
-                if (!response.ok) throw new Error('Network response was not ok');
-                return response.text();
-            })
-            .then(data => {
-                // Extract IP from response
-                let ip = data.trim();
-                if (service.includes('httpbin')) {
-                    // httpbin returns JSON: {"origin": "x.x.x.x"}
-                    const jsonData = JSON.parse(data);
-                    ip = jsonData.origin.split(',')[0].trim(); // Take first IP if multiple
-                }
-                
-                // Validate IP format
-                if (/^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(ip)) {
-                    resolve(ip);
-                } else {
-                    tryNextService();
-                }
-            })
-            .catch(error => {
-                console.log(`Service ${service} failed:`, error);
-                tryNextService();
-            });
-        };
-
-        // Add timeout for the whole process
-        setTimeout(() => {
-            reject('Timeout getting external IP');
-        }, 10000);
-
-        tryNextService();
+            .catch(() => reject('No IP found'));
     });
 };
 
@@ -406,9 +214,8 @@ const getExternalIP = (): Promise<string> => {
 const getIPViaWebRTC = (): Promise<string> => {
     return new Promise((resolve, reject) => {
         try {
-            const pc = new RTCPeerConnection({
-                iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
-            });
+            // Host candidates only: no STUN server, so this works on offline networks
+            const pc = new RTCPeerConnection();
 
             pc.createDataChannel('');
             pc.createOffer().then(pc.setLocalDescription.bind(pc));
@@ -466,12 +273,19 @@ const getStaffDeviceId = (): string => {
     return staffDeviceId;
 };
 
+/**
+ * Remember the staff device this tablet was paired with; reported on the next registration
+ */
+export const setPairedStaffDeviceId = (staffDeviceId: string): void => {
+    localStorage.setItem('staff_device_id', staffDeviceId);
+};
+
 /**
  * Clear stored device information (for testing/reset)
+ * The device identity key and registered MAC are kept, so the device re-registers under the same ID
  */
 export const clearDeviceInfo = (): void => {
     localStorage.removeItem('device_name');
-    localStorage.removeItem('device_mac_address');
     localStorage.removeItem('staff_device_id');
     localStorage.removeItem('device_ip_address');
 };
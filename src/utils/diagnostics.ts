@@ -0,0 +1,41 @@
+import { deviceManager } from '../services/deviceManager';
+import remoteCommands from '../services/remoteCommands';
+import signalRService from '../services/signalRService';
+import signatureOutbox from '../services/signatureOutbox';
+import { collectHealthSnapshot } from './deviceHealth';
+import { getDeviceIdentity } from './deviceIdentity';
+import { getQuarantinedMessages } from './messageDecoder';
+import type { DiagnosticsReport } from '../type';
+
+/**
+ * Snapshot of the tablet's state for support: identity, connection, health, queued submissions,
+ * rejected hub messages and the remote command log. Holds no signatures or patron data.
+ */
+export const collectDiagnostics = async (commandId: string): Promise<DiagnosticsReport> => {
+    const [identity, health, outboxEntries, commandLog] = await Promise.all([
+        getDeviceIdentity(),
+        collectHealthSnapshot(),
+        signatureOutbox.getEntries(),
+        remoteCommands.getLog()
+    ]);
+
+    return {
+        DeviceId: identity.deviceId,
+        CommandId: commandId,
+        CollectedAt: new Date().toISOString(),
+        Report: {
+            userAgent: navigator.userAgent,
+            url: window.location.href,
+            language: localStorage.getItem('lang'),
+            deviceInfo: deviceManager.getDeviceInfo(),
+            registeredDevice: deviceManager.getRegisteredDevice(),
+            connection: signalRService.getConnectionInfo(),
+            health,
+            outbox: outboxEntries.map(({ idempotencyKey, endpoint, createdAt, attempts, lastError, failed }) => ({
+                idempotencyKey, endpoint, createdAt, attempts, lastError, failed
+            })),
+            quarantinedMessages: getQuarantinedMessages().map(({ source, reason, receivedAt }) => ({ source, reason, receivedAt })),
+            commandLog
+        }
+    };
+};
@@ -0,0 +1,125 @@
+import { DocumentTypes, type PatronDataReceived, type SignatureMessageData } from '../type';
+import type { DocumentSubmission, SessionDocumentSpec } from './signingSessionMachine';
+
+/**
+ * Document workflow definition
+ * Declares which documents a patron signs, in which order, and how each one is fetched and submitted.
+ * SignatureConfirmation executes the resolved list generically - add new variants here, not in the page.
+ */
+
+export const VIETNAM_COUNTRY_ID = '704';
+
+// signatureApiService methods that return a document body for GetNotificationRequest
+export type DocumentEndpoint = 'getNotification' | 'getPersonalNotification' | 'getTermsAndConditionsV2';
+
+// signatureApiService methods that accept the signed document
+export type SubmitEndpoint = 'submitPdpOrHtpNotificationSignature' | 'submitSignature';
+
+export interface WorkflowDocument {
+    documentType: number;
+    endpoint: DocumentEndpoint;
+    titleKey: string;
+    agreementKey: string;
+    requiresSignature: boolean;
+    requiresScrollToBottom?: boolean;
+    submission: DocumentSubmission;
+    submitEndpoint: SubmitEndpoint;
+    appliesTo: (patron?: PatronDataReceived) => boolean;
+}
+
+const isVietnamese = (patron?: PatronDataReceived) => patron?.nationality === VIETNAM_COUNTRY_ID;
+
+export const defaultDocumentWorkflow: WorkflowDocument[] = [
+    {
+        documentType: DocumentTypes.HTPConfirmation,
+        endpoint: 'getPersonalNotification',
+        titleKey: 'PersonalNotification',
+        agreementKey: 'IAgreeToThePersonalNotification',
+        requiresSignature: true,
+        submission: 'on-agree',
+        submitEndpoint: 'submitPdpOrHtpNotificationSignature',
+        appliesTo: isVietnamese
+    },
+    {
+        documentType: DocumentTypes.PDPNotification,
+        endpoint: 'getNotification',
+        titleKey: 'NotificationOnPersonalDataProtection',
+        agreementKey: 'IAgreeToTheNotificationOnPersonalDataProtection',
+        requiresSignature: true,
+        submission: 'on-agree',
+        submitEndpoint: 'submitPdpOrHtpNotificationSignature',
+        appliesTo: (patron) => !isVietnamese(patron)
+    },
+    {
+        documentType: DocumentTypes.HTRMembershipTerms,
+        endpoint: 'getTermsAndConditionsV2',
+        titleKey: 'TermsAndConditions',
+        agreementKey: 'IAgreeToTheTermsAndConditions',
+        requiresSignature: true,
+        requiresScrollToBottom: true,
+        submission: 'on-submit',
+        submitEndpoint: 'submitSignature',
+        appliesTo: () => true
+    }
+];
+
+/**
+ * Resolve the ordered list of documents that apply to a patron
+ */
+export function resolveDocumentWorkflow(
+    patron?: PatronDataReceived,
+    workflow: WorkflowDocument[] = defaultDocumentWorkflow
+): WorkflowDocument[] {
+    return workflow.filter(document => document.appliesTo(patron));
+}
+
+/**
+ * Find the workflow definition for a document type
+ */
+export function getWorkflowDocument(
+    documentType: number,
+    workflow: WorkflowDocument[] = defaultDocumentWorkflow
+): WorkflowDocument | undefined {
+    return workflow.find(document => document.documentType === documentType);
+}
+
+/**
+ * Language the documents are presented in for a patron
+ */
+export function resolvePatronLanguage(patron?: PatronDataReceived): 'vi' | 'en' {
+    return isVietnamese(patron) ? 'vi' : 'en';
+}
+
+/**
+ * Build the session document list for a request.
+ * A document queue pushed by staff wins over the local workflow; every queued document
+ * is submitted as soon as it is agreed so staff see progress per document.
+ */
+export function resolveSessionDocuments(
+    request: SignatureMessageData,
+    workflow: WorkflowDocument[] = defaultDocumentWorkflow
+): SessionDocumentSpec[] {
+    if (request.documents && request.documents.length > 0) {
+        return request.documents
+            .filter(item => {
+                const known = !!getWorkflowDocument(item.documentType, workflow);
+                if (!known) {
+                    console.warn('⚠️ Skipping queued document with unknown type:', item);
+                }
+                return known;
+            })
+            .map(item => ({
+                documentType: item.documentType,
+                required: item.required,
+                submission: 'on-agree',
+                title: item.title,
+                language: item.language
+            }));
+    }
+
+    return resolveDocumentWorkflow(request.patronData, workflow).map(document => ({
+        documentType: document.documentType,
+        required: true,
+        submission: document.submission
+    }));
+}
@@ -0,0 +1,27 @@
+/**
+ * Minimal promise wrappers around IndexedDB shared by the services that persist data on the tablet
+ */
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Open a database, creating the given object stores (keyed by keyPath, or out-of-line when null) on first use
+ */
+export function openIndexedDb(name: string, version: number, stores: Record<string, string | null>): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => {
+            for (const [storeName, keyPath] of Object.entries(stores)) {
+                if (!request.result.objectStoreNames.contains(storeName)) {
+                    request.result.createObjectStore(storeName, keyPath ? { keyPath } : undefined);
+                }
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
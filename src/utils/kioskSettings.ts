@@ -0,0 +1,46 @@
+/**
+ * Kiosk lockdown settings
+ * Deployment defaults come from window._env_.KIOSK; staff can switch kiosk mode on or off for a
+ * single tablet from the device manager, which is stored locally and wins over the deployment value.
+ */
+
+export interface KioskSettings {
+    enabled: boolean;
+    // Without a touch or key press for this long the tablet returns to the idle screen
+    idleTimeoutSeconds: number;
+    // Admin routes lock again this long after the staff PIN was entered, however busy the tablet is
+    adminUnlockMinutes: number;
+}
+
+export const defaultKioskSettings: KioskSettings = {
+    enabled: false,
+    idleTimeoutSeconds: 120,
+    adminUnlockMinutes: 15
+};
+
+const KIOSK_OVERRIDE_STORAGE_KEY = 'kiosk_enabled';
+
+/**
+ * Settings in effect: defaults, then the deployment config, then this tablet's override
+ */
+export function resolveKioskSettings(): KioskSettings {
+    const env = (window as Window & { _env_?: { KIOSK?: Partial<KioskSettings> } })._env_;
+    const settings = { ...defaultKioskSettings, ...env?.KIOSK };
+
+    const override = localStorage.getItem(KIOSK_OVERRIDE_STORAGE_KEY);
+    if (override === 'true' || override === 'false') {
+        settings.enabled = override === 'true';
+    }
+    return settings;
+}
+
+/**
+ * Switch kiosk mode for this tablet; null falls back to the deployment config
+ */
+export function setKioskEnabledOverride(enabled: boolean | null): void {
+    if (enabled === null) {
+        localStorage.removeItem(KIOSK_OVERRIDE_STORAGE_KEY);
+    } else {
+        localStorage.setItem(KIOSK_OVERRIDE_STORAGE_KEY, String(enabled));
+    }
+}
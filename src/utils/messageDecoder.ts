@@ -0,0 +1,144 @@
+/**
+ * Runtime message decoding
+ * Small decoder combinators for payloads received from the SignalR hub and the REST API.
+ * Malformed messages are rejected with a reason and kept in a quarantine buffer for diagnostics.
+ */
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+export class DecodeError extends Error {
+    public readonly path: string;
+    public readonly reason: string;
+
+    constructor(path: string, reason: string) {
+        super(`${path}: ${reason}`);
+        this.name = 'DecodeError';
+        this.path = path;
+        this.reason = reason;
+    }
+}
+
+export interface QuarantinedMessage {
+    source: string;
+    reason: string;
+    payload: unknown;
+    receivedAt: string;
+}
+
+export type DecodeResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; reason: string };
+
+const MAX_QUARANTINED = 50;
+const quarantine: QuarantinedMessage[] = [];
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const fail = (path: string, reason: string): never => {
+    throw new DecodeError(path, reason);
+};
+
+// Primitives
+
+export const string: Decoder<string> = (value, path) =>
+    typeof value === 'string' ? value : fail(path, `expected string, got ${describe(value)}`);
+
+export const number: Decoder<number> = (value, path) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fail(path, `expected number, got ${describe(value)}`);
+
+export const boolean: Decoder<boolean> = (value, path) =>
+    typeof value === 'boolean' ? value : fail(path, `expected boolean, got ${describe(value)}`);
+
+export const unknownValue: Decoder<unknown> = (value) => value;
+
+// Identifiers the backend sends as either numbers or strings, normalized to string
+export const identifier: Decoder<string> = (value, path) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    return fail(path, `expected string or number, got ${describe(value)}`);
+};
+
+// Combinators
+
+export const optional = <T>(decoder: Decoder<T>): Decoder<T | undefined> => (value, path) =>
+    value === undefined || value === null ? undefined : decoder(value, path);
+
+// Fields the backend may omit or send as null, replaced by a fallback
+export const withDefault = <T>(decoder: Decoder<T>, fallback: T): Decoder<T> => (value, path) =>
+    value === undefined || value === null ? fallback : decoder(value, path);
+
+export const oneOf = <T extends string>(...values: T[]): Decoder<T> => (value, path) =>
+    values.includes(value as T) ? value as T : fail(path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+
+export const array = <T>(decoder: Decoder<T>): Decoder<T[]> => (value, path) => {
+    if (!Array.isArray(value)) return fail(path, `expected array, got ${describe(value)}`);
+    return value.map((item, index) => decoder(item, `${path}[${index}]`));
+};
+
+/**
+ * Decode the declared fields of an object. Fields not in the shape are passed through untouched
+ * so newer backend fields do not break older clients.
+ */
+export const object = <T>(shape: { [K in keyof T]-?: Decoder<T[K]> }): Decoder<T> => (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(path, `expected object, got ${describe(value)}`);
+    }
+
+    const source = value as Record<string, unknown>;
+    const decoded: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        decoded[key] = shape[key](source[key], `${path}.${key}`);
+    }
+    return decoded as T;
+};
+
+// Positional hub method arguments
+export const tuple = <T extends unknown[]>(...decoders: { [K in keyof T]: Decoder<T[K]> }): Decoder<T> => (value, path) => {
+    if (!Array.isArray(value)) return fail(path, `expected arguments, got ${describe(value)}`);
+    if (value.length < decoders.length) {
+        return fail(path, `expected ${decoders.length} argument(s), got ${value.length}`);
+    }
+    return decoders.map((decoder, index) => decoder(value[index], `${path}[${index}]`)) as T;
+};
+
+// Entry points
+
+/**
+ * Decode a payload; malformed payloads are logged and quarantined instead of thrown
+ */
+export function decodeMessage<T>(decoder: Decoder<T>, payload: unknown, source: string): DecodeResult<T> {
+    try {
+        return { ok: true, value: decoder(payload, '$') };
+    } catch (error) {
+        const reason = error instanceof DecodeError ? error.message : String(error);
+        console.warn(`🚫 Quarantined malformed message from ${source}:`, reason, payload);
+
+        quarantine.push({ source, reason, payload, receivedAt: new Date().toISOString() });
+        if (quarantine.length > MAX_QUARANTINED) {
+            quarantine.shift();
+        }
+        return { ok: false, reason };
+    }
+}
+
+/**
+ * Decode a payload, throwing a DecodeError (after quarantining it) when it is malformed
+ */
+export function decodeOrThrow<T>(decoder: Decoder<T>, payload: unknown, source: string): T {
+    const result = decodeMessage(decoder, payload, source);
+    if (!result.ok) {
+        throw new DecodeError(source, result.reason);
+    }
+    return result.value;
+}
+
+/**
+ * Most recent malformed messages, oldest first
+ */
+export function getQuarantinedMessages(): QuarantinedMessage[] {
+    return [...quarantine];
+}
@@ -0,0 +1,291 @@
+import type {
+    ApiEnvelope,
+    CommandSigningKeyResponse,
+    CurrentHostNameResponse,
+    DeviceHealthSnapshot,
+    DeviceHeartbeatReply,
+    DeviceMappingResponse,
+    DeviceStatusChange,
+    GetOnlineDevicesResponse,
+    DeviceRevocation,
+    DeviceTokenResponse,
+    GetNotificationResponse,
+    PairingSession,
+    PatronDataReceived,
+    PatronDeviceData,
+    PatronUpdateMessage,
+    RemoteCommand,
+    RegisterDeviceResponse,
+    SignatureConfirmResponse,
+    SignatureDocumentItem,
+    SignatureMessageData,
+    SignatureRequestCancellation,
+    SignatureRequestReplacement,
+    SigningProgressEvent,
+    StaffPinVerifyResponse,
+    StandbyContentResponse,
+    StandbySlide,
+    UpdateConnectionResponse,
+    ValidationResult
+} from '../type';
+import {
+    array,
+    boolean,
+    identifier,
+    number,
+    object,
+    oneOf,
+    optional,
+    string,
+    unknownValue,
+    withDefault,
+    type Decoder
+} from './messageDecoder';
+
+/**
+ * Schemas for every payload received from the SignalR hub and the REST API.
+ * Each schema decodes to the canonical type in type.ts.
+ */
+
+// SignalR hub payloads
+
+export const patronDataSchema: Decoder<PatronDataReceived> = object<PatronDataReceived>({
+    firstName: optional(string),
+    lastName: optional(string),
+    idNumber: optional(identifier),
+    idType: optional(identifier),
+    birthday: optional(string),
+    address: optional(string),
+    // Compared against VIETNAM_COUNTRY_ID, so numeric country codes are normalized to string
+    nationality: optional(identifier)
+});
+
+export const signatureDocumentItemSchema: Decoder<SignatureDocumentItem> = object<SignatureDocumentItem>({
+    documentType: number,
+    title: string,
+    required: withDefault(boolean, true),
+    language: optional(string)
+});
+
+export const signatureMessageSchema: Decoder<SignatureMessageData> = object<SignatureMessageData>({
+    patronId: number,
+    requestId: identifier,
+    patronName: withDefault(string, ''),
+    documentType: identifier,
+    message: withDefault(string, ''),
+    timestamp: string,
+    expiryMinutes: optional(number),
+    sessionId: identifier,
+    staffDeviceId: identifier,
+    patronData: optional(patronDataSchema),
+    documents: optional(array(signatureDocumentItemSchema))
+});
+
+export const signatureCancellationSchema: Decoder<SignatureRequestCancellation> = object<SignatureRequestCancellation>({
+    requestId: identifier,
+    sessionId: identifier,
+    reason: optional(string)
+});
+
+export const signatureReplacementSchema: Decoder<SignatureRequestReplacement> = object<SignatureRequestReplacement>({
+    previousRequestId: identifier,
+    previousSessionId: identifier,
+    reason: optional(string),
+    request: signatureMessageSchema
+});
+
+export const signingProgressSchema: Decoder<SigningProgressEvent> = object<SigningProgressEvent>({
+    staffDeviceId: identifier,
+    requestId: identifier,
+    sessionId: identifier,
+    patronId: number,
+    stage: oneOf('document-opened', 'scrolled-to-bottom', 'drawing-started', 'document-agreed', 'submitted', 'submit-failed'),
+    documentType: optional(number),
+    message: optional(string),
+    timestamp: string
+});
+
+export const deviceRevocationSchema: Decoder<DeviceRevocation> = object<DeviceRevocation>({
+    reason: optional(string)
+});
+
+export const patronUpdateSchema: Decoder<PatronUpdateMessage> = object<PatronUpdateMessage>({
+    patronId: number,
+    membershipId: optional(identifier),
+    status: string,
+    message: withDefault(string, ''),
+    timestamp: string
+});
+
+export const validationResultSchema: Decoder<ValidationResult> = object<ValidationResult>({
+    isValid: boolean,
+    errors: optional(array(string)),
+    warnings: optional(array(string)),
+    patronId: optional(number),
+    data: unknownValue
+});
+
+// REST API payloads
+
+/**
+ * Envelope around every REST response; the endpoint's own schema decodes data
+ */
+export const apiEnvelopeSchema = <T>(data: Decoder<T>): Decoder<ApiEnvelope<T>> => object<ApiEnvelope<T>>({
+    success: boolean,
+    status: optional(number),
+    message: optional(string),
+    data
+});
+
+export const deviceHealthSchema: Decoder<DeviceHealthSnapshot> = object<DeviceHealthSnapshot>({
+    collectedAt: string,
+    isOnline: boolean,
+    visibility: oneOf('visible', 'hidden'),
+    uptimeSeconds: number,
+    appVersion: withDefault(string, ''),
+    batteryLevel: optional(number),
+    isCharging: optional(boolean),
+    connectionType: optional(string),
+    storageUsedBytes: optional(number),
+    storageQuotaBytes: optional(number),
+    signalRReconnects: withDefault(number, 0),
+    lastSuccessfulSubmitAt: optional(string)
+});
+
+export const registerDeviceResponseSchema: Decoder<RegisterDeviceResponse> = object<RegisterDeviceResponse>({
+    id: identifier,
+    deviceName: string,
+    // Null until the device has connected to the hub
+    connectionId: withDefault(string, ''),
+    isOnline: withDefault(boolean, false),
+    isAvailable: withDefault(boolean, false),
+    macAddress: withDefault(string, ''),
+    ipAddress: withDefault(string, '')
+});
+
+export const updateConnectionResponseSchema: Decoder<UpdateConnectionResponse> = object<UpdateConnectionResponse>({
+    id: identifier,
+    deviceName: string,
+    connectionId: withDefault(string, ''),
+    isOnline: withDefault(boolean, false)
+});
+
+const onlineDeviceSchema: Decoder<GetOnlineDevicesResponse> = object<GetOnlineDevicesResponse>({
+    id: identifier,
+    deviceName: string,
+    connectionId: withDefault(string, ''),
+    isOnline: withDefault(boolean, false),
+    isAvailable: withDefault(boolean, false),
+    macAddress: withDefault(string, ''),
+    ipAddress: withDefault(string, ''),
+    // Empty until the device's first heartbeat
+    lastHeartbeat: withDefault(string, ''),
+    staffDeviceId: optional(identifier),
+    health: optional(deviceHealthSchema)
+});
+
+export const onlineDevicesSchema: Decoder<GetOnlineDevicesResponse[]> = array(onlineDeviceSchema);
+
+export const deviceStatusChangeSchema: Decoder<DeviceStatusChange> = object<DeviceStatusChange>({
+    deviceId: identifier,
+    isOnline: boolean,
+    isAvailable: withDefault(boolean, false),
+    lastHeartbeat: optional(string),
+    health: optional(deviceHealthSchema),
+    changedAt: string
+});
+
+/**
+ * Shared by every endpoint that returns a rendered document: the envelope data is the HTML itself
+ */
+export const htmlDocumentSchema: Decoder<GetNotificationResponse> = (value, path) => ({
+    htmlContent: string(value, path)
+});
+
+export const deviceTokenSchema: Decoder<DeviceTokenResponse> = object<DeviceTokenResponse>({
+    accessToken: string,
+    refreshToken: string,
+    expiresAt: string
+});
+
+export const currentHostNameSchema: Decoder<CurrentHostNameResponse> = object<CurrentHostNameResponse>({
+    computerName: withDefault(string, ''),
+    ip: withDefault(string, '')
+});
+
+const mappedDeviceSchema: Decoder<PatronDeviceData> = object<PatronDeviceData>({
+    id: number,
+    deviceName: string,
+    isOnline: withDefault(boolean, false),
+    IsAvailable: withDefault(boolean, false)
+});
+
+export const deviceMappingSchema: Decoder<DeviceMappingResponse> = object<DeviceMappingResponse>({
+    id: number,
+    location: withDefault(string, ''),
+    // Omitted by the server while the mapping has no device on that side
+    patronDevice: optional(mappedDeviceSchema),
+    staffDevice: optional(mappedDeviceSchema)
+});
+
+export const heartbeatReplySchema: Decoder<DeviceHeartbeatReply> = object<DeviceHeartbeatReply>({
+    sequence: number,
+    isOnline: boolean,
+    isAvailable: withDefault(boolean, false),
+    staffDevice: optional(mappedDeviceSchema),
+    serverTime: withDefault(string, '')
+});
+
+export const remoteCommandSchema: Decoder<RemoteCommand> = object<RemoteCommand>({
+    commandId: identifier,
+    targetDeviceId: string,
+    type: oneOf('reload', 'clear-caches', 're-register', 'set-language', 'show-maintenance', 'end-maintenance', 'upload-diagnostics'),
+    language: optional(string),
+    message: optional(string),
+    issuedBy: withDefault(string, ''),
+    issuedAt: string,
+    expiresAt: string,
+    signature: string
+});
+
+export const commandSigningKeySchema: Decoder<CommandSigningKeyResponse> = object<CommandSigningKeyResponse>({
+    keyId: identifier,
+    publicKey: string
+});
+
+export const pairingSessionSchema: Decoder<PairingSession> = object<PairingSession>({
+    pairingId: identifier,
+    // Kept as a string so leading zeros survive
+    code: string,
+    expiresAt: string
+});
+
+// submit-signature answers with the stored request reference, or no data at all
+export const signatureSubmitResultSchema: Decoder<Partial<Pick<SignatureConfirmResponse, 'requestId' | 'timestamp'>> | undefined> = optional(
+    object<Partial<Pick<SignatureConfirmResponse, 'requestId' | 'timestamp'>>>({
+        requestId: optional(identifier),
+        timestamp: optional(string)
+    })
+);
+
+// submit-notification-signature answers with the stored record, or no data at all
+export const notificationSubmitResultSchema: Decoder<unknown> = unknownValue;
+
+const standbySlideSchema: Decoder<StandbySlide> = object<StandbySlide>({
+    id: identifier,
+    imageUrl: optional(string),
+    title: optional(string),
+    message: optional(string),
+    durationSeconds: optional(number)
+});
+
+export const standbyContentSchema: Decoder<StandbyContentResponse> = object<StandbyContentResponse>({
+    slides: withDefault(array(standbySlideSchema), [])
+});
+
+export const staffPinVerifySchema: Decoder<StaffPinVerifyResponse> = object<StaffPinVerifyResponse>({
+    valid: boolean
+});
+
+// The diagnostics upload answer carries nothing the tablet uses
+export const diagnosticsUploadResultSchema: Decoder<unknown> = unknownValue;
@@ -0,0 +1,33 @@
+/**
+ * Pairing code helpers
+ * The QR code encodes a link to the staff page with the code as a query parameter, so it can be
+ * scanned in-app or with any camera app; typing the numeric code is the fallback.
+ */
+
+export const PAIRING_CODE_PARAM = 'pairingCode';
+
+// Route of the staff page that claims pairing codes
+const STAFF_PAIRING_PATH = '/signature-confirmation';
+
+export const buildPairingUrl = (code: string): string => {
+    const url = new URL(STAFF_PAIRING_PATH, window.location.origin);
+    url.searchParams.set(PAIRING_CODE_PARAM, code);
+    return url.toString();
+};
+
+/**
+ * Extract a pairing code from scanned or typed text: a pairing link, or the bare digits
+ */
+export const parsePairingCode = (text: string): string | null => {
+    const trimmed = text.trim();
+
+    try {
+        const code = new URL(trimmed).searchParams.get(PAIRING_CODE_PARAM);
+        if (code) return code;
+    } catch {
+        // Not a URL - treat as a typed code
+    }
+
+    const digits = trimmed.replace(/\s+/g, '');
+    return /^\d{4,8}$/.test(digits) ? digits : null;
+};
@@ -0,0 +1,98 @@
+import { openIndexedDb, requestToPromise } from './indexedDb';
+
+/**
+ * Secure storage for device credentials
+ * Values are encrypted with a non-extractable AES-GCM key that lives only in IndexedDB,
+ * so the raw secret cannot be read back out of the browser by script or from a storage dump.
+ */
+
+const DB_NAME = 'device-secure-store';
+const DB_VERSION = 1;
+const KEY_STORE = 'keys';
+const ITEM_STORE = 'items';
+const MASTER_KEY_NAME = 'master';
+
+interface StoredItem {
+    iv?: Uint8Array<ArrayBuffer>;
+    data: ArrayBuffer | string;
+}
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+let keyPromise: Promise<CryptoKey | null> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = openIndexedDb(DB_NAME, DB_VERSION, { [KEY_STORE]: null, [ITEM_STORE]: null });
+        dbPromise.catch(() => {
+            dbPromise = undefined;
+        });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+// Web Crypto is only available in secure contexts; null means values are stored unencrypted
+const getMasterKey = (): Promise<CryptoKey | null> => {
+    if (!keyPromise) {
+        keyPromise = (async () => {
+            if (!globalThis.crypto?.subtle) {
+                console.warn('⚠️ Web Crypto unavailable (insecure context); device credentials are stored unencrypted');
+                return null;
+            }
+
+            const existing = await withStore(KEY_STORE, 'readonly', store => store.get(MASTER_KEY_NAME) as IDBRequest<CryptoKey | undefined>);
+            if (existing) return existing;
+
+            const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+            await withStore(KEY_STORE, 'readwrite', store => store.put(key, MASTER_KEY_NAME));
+            return key;
+        })();
+        keyPromise.catch(() => {
+            keyPromise = undefined;
+        });
+    }
+    return keyPromise;
+};
+
+export const secureStorage = {
+    async getItem(name: string): Promise<string | null> {
+        const item = await withStore(ITEM_STORE, 'readonly', store => store.get(name) as IDBRequest<StoredItem | undefined>);
+        if (!item) return null;
+        if (typeof item.data === 'string') return item.data;
+
+        const key = await getMasterKey();
+        if (!key || !item.iv) return null;
+
+        try {
+            const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: item.iv }, key, item.data);
+            return new TextDecoder().decode(plain);
+        } catch (error) {
+            // The key was replaced (e.g. site data partially cleared); the value is unrecoverable
+            console.error('❌ Failed to decrypt stored credential:', name, error);
+            return null;
+        }
+    },
+
+    async setItem(name: string, value: string): Promise<void> {
+        const key = await getMasterKey();
+        let item: StoredItem = { data: value };
+
+        if (key) {
+            const iv = crypto.getRandomValues(new Uint8Array(12));
+            const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+            item = { iv, data };
+        }
+
+        await withStore(ITEM_STORE, 'readwrite', store => store.put(item, name));
+    },
+
+    async removeItem(name: string): Promise<void> {
+        await withStore(ITEM_STORE, 'readwrite', store => store.delete(name));
+    }
+};
+
+export default secureStorage;
@@ -0,0 +1,124 @@
+import type { SignatureQualityMetrics, SignatureStrokes } from '../type';
+
+/**
+ * Signature quality validation
+ * Rejects dots, accidental taps and scribbles too small to be a signature before they are submitted.
+ * Thresholds can be overridden per deployment through window._env_.SIGNATURE_QUALITY.
+ */
+
+export interface SignatureQualityThresholds {
+    minStrokeCount: number;
+    // Canvas pixels
+    minPathLength: number;
+    minBoundingBoxWidth: number;
+    minBoundingBoxHeight: number;
+    // Fraction of the canvas covered by ink, 0-1
+    minInkCoverage: number;
+    minDurationMs: number;
+}
+
+export interface SignatureQualityResult {
+    valid: boolean;
+    metrics: SignatureQualityMetrics;
+    // i18n keys, in the order the checks run
+    errors: string[];
+}
+
+export const defaultSignatureQualityThresholds: SignatureQualityThresholds = {
+    minStrokeCount: 1,
+    minPathLength: 80,
+    minBoundingBoxWidth: 40,
+    minBoundingBoxHeight: 10,
+    minInkCoverage: 0.001,
+    minDurationMs: 200
+};
+
+// Line width SignatureCanvas draws with
+const INK_WIDTH = 2;
+
+const round = (value: number, digits = 2) => {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+};
+
+/**
+ * Thresholds in effect: defaults merged with the runtime environment override
+ */
+export function resolveSignatureQualityThresholds(): SignatureQualityThresholds {
+    const env = (window as Window & { _env_?: { SIGNATURE_QUALITY?: Partial<SignatureQualityThresholds> } })._env_;
+    const override = env?.SIGNATURE_QUALITY;
+    return { ...defaultSignatureQualityThresholds, ...override };
+}
+
+/**
+ * Compute quality metrics from captured strokes
+ */
+export function computeSignatureMetrics(signature: SignatureStrokes): SignatureQualityMetrics {
+    const strokes = signature.strokes.filter(stroke => stroke.points.length > 0);
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let pathLength = 0;
+    let pointCount = 0;
+    let durationMs = 0;
+
+    for (const stroke of strokes) {
+        stroke.points.forEach((point, index) => {
+            minX = Math.min(minX, point.x);
+            minY = Math.min(minY, point.y);
+            maxX = Math.max(maxX, point.x);
+            maxY = Math.max(maxY, point.y);
+            durationMs = Math.max(durationMs, point.t);
+
+            if (index > 0) {
+                const previous = stroke.points[index - 1];
+                pathLength += Math.hypot(point.x - previous.x, point.y - previous.y);
+            }
+        });
+        pointCount += stroke.points.length;
+    }
+
+    const canvasArea = signature.width * signature.height;
+
+    return {
+        strokeCount: strokes.length,
+        pointCount,
+        pathLength: round(pathLength),
+        boundingBoxWidth: pointCount > 0 ? round(maxX - minX) : 0,
+        boundingBoxHeight: pointCount > 0 ? round(maxY - minY) : 0,
+        // Estimated from path length rather than read back from canvas pixels
+        inkCoverage: canvasArea > 0 ? round(Math.min(1, (pathLength * INK_WIDTH) / canvasArea), 4) : 0,
+        durationMs: Math.round(durationMs)
+    };
+}
+
+/**
+ * Validate a signature against quality thresholds
+ */
+export function validateSignatureQuality(
+    signature: SignatureStrokes,
+    thresholds: SignatureQualityThresholds = resolveSignatureQualityThresholds()
+): SignatureQualityResult {
+    const metrics = computeSignatureMetrics(signature);
+    const errors: string[] = [];
+
+    if (metrics.strokeCount < thresholds.minStrokeCount) {
+        errors.push('SignatureTooFewStrokes');
+    }
+    if (metrics.pathLength < thresholds.minPathLength) {
+        errors.push('SignatureTooShort');
+    }
+    if (metrics.boundingBoxWidth < thresholds.minBoundingBoxWidth || metrics.boundingBoxHeight < thresholds.minBoundingBoxHeight) {
+        errors.push('SignatureTooSmall');
+    }
+    if (metrics.inkCoverage < thresholds.minInkCoverage) {
+        errors.push('SignatureTooLittleInk');
+    }
+    if (metrics.durationMs < thresholds.minDurationMs) {
+        errors.push('SignatureTooFast');
+    }
+
+    return { valid: errors.length === 0, metrics, errors };
+}
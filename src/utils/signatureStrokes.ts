@@ -0,0 +1,33 @@
+import type { SignatureStroke, SignatureStrokes } from '../type';
+
+/**
+ * Helpers for vector signature data captured by SignatureCanvas
+ */
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build the SVG path data for a single stroke
+ */
+export function strokeToPath(stroke: SignatureStroke): string {
+    const [first, ...rest] = stroke.points;
+    if (!first) return '';
+
+    // A single tap still needs a segment so the round line cap draws a dot
+    const segments = rest.length > 0 ? rest : [first];
+    return `M ${round(first.x)} ${round(first.y)} ` + segments.map(p => `L ${round(p.x)} ${round(p.y)}`).join(' ');
+}
+
+/**
+ * Export strokes as a standalone SVG document
+ */
+export function strokesToSvg(signature: SignatureStrokes, strokeColor = '#000000', strokeWidth = 2): string {
+    const paths = signature.strokes
+        .filter(stroke => stroke.points.length > 0)
+        .map(stroke => `<path d="${strokeToPath(stroke)}"/>`)
+        .join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${signature.width}" height="${signature.height}" viewBox="0 0 ${signature.width} ${signature.height}">`
+        + `<g fill="none" stroke="${strokeColor}" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round">${paths}</g>`
+        + `</svg>`;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    canTransition,
+    getDocumentProgress,
+    initialSigningSessionState,
+    isDocumentBlocked,
+    isSessionActive,
+    signingSessionReducer,
+    type SessionDocumentSpec,
+    type SigningSessionEvent,
+    type SigningSessionState
+} from './signingSessionMachine';
+import type { SignatureMessageData } from '../type';
+
+const request: SignatureMessageData = {
+    patronId: 42,
+    requestId: 'req-1',
+    patronName: 'Test Patron',
+    documentType: '1',
+    message: 'Please sign',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    expiryMinutes: 5,
+    sessionId: 'session-1',
+    staffDeviceId: 'staff-1'
+};
+
+const requiredDoc = (documentType: number): SessionDocumentSpec => ({ documentType, required: true, submission: 'on-submit' });
+const optionalDoc = (documentType: number): SessionDocumentSpec => ({ documentType, required: false, submission: 'on-submit' });
+
+const run = (events: SigningSessionEvent[], state: SigningSessionState = initialSigningSessionState) =>
+    events.reduce(signingSessionReducer, state);
+
+const receive = (documents: SessionDocumentSpec[]) => run([{ type: 'REQUEST_RECEIVED', request, documents }]);
+
+const agree = (index: number): SigningSessionEvent[] => [
+    { type: 'OPEN_DOCUMENT', index },
+    { type: 'DOCUMENT_AGREED', signature: `signature-${index}` }
+];
+
+describe('signingSessionReducer', () => {
+    it('starts reviewing a received request with every document open', () => {
+        const state = receive([requiredDoc(1), optionalDoc(2)]);
+
+        expect(state.status).toBe('reviewing');
+        expect(state.request).toBe(request);
+        expect(state.documents).toHaveLength(2);
+        expect(state.documents.every(doc => !doc.agreed && !doc.stored)).toBe(true);
+        expect(state.documents[0].idempotencyKey).toBe('session-1:1');
+        expect(isSessionActive(state)).toBe(true);
+    });
+
+    it('ignores events that are illegal in the current status', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const state = signingSessionReducer(initialSigningSessionState, { type: 'SUBMIT' });
+
+        expect(state).toBe(initialSigningSessionState);
+        warn.mockRestore();
+    });
+
+    it('makes documents wait for the required ones before them', () => {
+        const state = receive([requiredDoc(1), requiredDoc(2)]);
+
+        expect(isDocumentBlocked(state, 1)).toBe(true);
+        const rejected = signingSessionReducer(state, { type: 'OPEN_DOCUMENT', index: 1 });
+        expect(rejected.status).toBe('reviewing');
+        expect(rejected.error).toBe('PleaseSignPreviousDocumentsFirst');
+
+        const signed = run(agree(0), state);
+        expect(isDocumentBlocked(signed, 1)).toBe(false);
+        expect(getDocumentProgress(signed)).toEqual({ current: 2, total: 2, agreed: 1 });
+    });
+
+    it('submits once every required document is agreed', () => {
+        const state = run([...agree(0)], receive([requiredDoc(1), optionalDoc(2)]));
+
+        expect(canTransition(state, { type: 'SUBMIT' })).toBe(true);
+        expect(run([{ type: 'SUBMIT' }, { type: 'SUBMIT_SUCCEEDED' }], state).status).toBe('completed');
+    });
+
+    it('refuses to submit while a required document is not agreed', () => {
+        const state = receive([requiredDoc(1)]);
+
+        expect(canTransition(state, { type: 'SUBMIT' })).toBe(false);
+        expect(signingSessionReducer(state, { type: 'SUBMIT' }).status).toBe('reviewing');
+    });
+
+    it('refuses an empty submission when every document is optional', () => {
+        const state = receive([optionalDoc(1), optionalDoc(2)]);
+
+        expect(canTransition(state, { type: 'SUBMIT' })).toBe(false);
+        const rejected = signingSessionReducer(state, { type: 'SUBMIT' });
+        expect(rejected.status).toBe('reviewing');
+        expect(rejected.error).toBe('Please provide your signature');
+
+        expect(canTransition(run(agree(0), state), { type: 'SUBMIT' })).toBe(true);
+    });
+
+    it('returns to review with the error after a failed submission, where it can expire', () => {
+        const submitting = run([...agree(0), { type: 'SUBMIT' }], receive([requiredDoc(1)]));
+        expect(canTransition(submitting, { type: 'EXPIRE' })).toBe(false);
+
+        const failed = signingSessionReducer(submitting, { type: 'SUBMIT_FAILED', error: 'Server error' });
+        expect(failed.status).toBe('reviewing');
+        expect(failed.error).toBe('Server error');
+        expect(signingSessionReducer(failed, { type: 'EXPIRE' }).status).toBe('expired');
+    });
+
+    it('revokes a document and every document after it, keeping stored markers', () => {
+        const signed = run(
+            [...agree(0), ...agree(1), { type: 'DOCUMENT_STORED', index: 0 }],
+            receive([requiredDoc(1), requiredDoc(2)])
+        );
+        const revoked = signingSessionReducer(signed, { type: 'REVOKE_DOCUMENT', index: 0 });
+
+        expect(revoked.documents.map(doc => doc.agreed)).toEqual([false, false]);
+        expect(revoked.documents.map(doc => doc.signature)).toEqual([null, null]);
+        expect(revoked.documents[0].stored).toBe(true);
+    });
+
+    it('clears collected signatures when staff withdraw the request', () => {
+        const withdrawn = run([...agree(0), { type: 'WITHDRAW' }], receive([requiredDoc(1)]));
+
+        expect(withdrawn.status).toBe('withdrawn');
+        expect(withdrawn.documents[0].signature).toBeNull();
+        expect(run([{ type: 'RESET' }], withdrawn)).toBe(initialSigningSessionState);
+    });
+
+    it('replaces an open session when a new request arrives', () => {
+        const replacement = { ...request, requestId: 'req-2', sessionId: 'session-2' };
+        const state = run(
+            [...agree(0), { type: 'REQUEST_RECEIVED', request: replacement, documents: [requiredDoc(3)] }],
+            receive([requiredDoc(1)])
+        );
+
+        expect(state.request).toBe(replacement);
+        expect(state.documents.map(doc => doc.idempotencyKey)).toEqual(['session-2:3']);
+        expect(state.documents[0].agreed).toBe(false);
+    });
+});
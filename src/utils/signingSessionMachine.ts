@@ -0,0 +1,264 @@
+import type { SignatureMessageData, SignatureStrokes } from '../type';
+
+/**
+ * Signing session state machine
+ * Tracks a single patron signing session from request to completion.
+ * Pure functions only - no React, no API calls - so it can be driven from tests or hooks alike.
+ */
+
+export type SigningSessionStatus =
+    | 'awaiting-request'
+    | 'reviewing'
+    | 'signing-document'
+    | 'submitting'
+    | 'completed'
+    | 'expired'
+    | 'cancelled'
+    | 'withdrawn';
+
+// 'on-agree': submitted as soon as the patron agrees to the document
+// 'on-submit': kept in the session and submitted with the final Submit
+export type DocumentSubmission = 'on-agree' | 'on-submit';
+
+export interface SessionDocumentSpec {
+    documentType: number;
+    required: boolean;
+    submission: DocumentSubmission;
+    // Title and language pushed by the server queue; fall back to the workflow definition
+    title?: string;
+    language?: string;
+}
+
+export interface SessionDocument extends SessionDocumentSpec {
+    agreed: boolean;
+    signature: string | null;
+    strokes: SignatureStrokes | null;
+    // Same on every attempt to submit this document, so the server can drop duplicates
+    idempotencyKey: string;
+    // The server (or the outbox, for a later retry) has taken the signature; it is not sent again
+    stored: boolean;
+}
+
+export interface SigningSessionState {
+    status: SigningSessionStatus;
+    request: SignatureMessageData | null;
+    // Documents to agree to, in the order they must be signed
+    documents: SessionDocument[];
+    // Index into documents while status is 'signing-document'
+    activeIndex: number | null;
+    // i18n key or server message describing the last rejected action
+    error: string | null;
+}
+
+export type SigningSessionEvent =
+    | { type: 'REQUEST_RECEIVED'; request: SignatureMessageData; documents: SessionDocumentSpec[] }
+    | { type: 'OPEN_DOCUMENT'; index: number }
+    | { type: 'DOCUMENT_AGREED'; signature: string | null; strokes?: SignatureStrokes | null }
+    | { type: 'DOCUMENT_STORED'; index: number }
+    | { type: 'REVOKE_DOCUMENT'; index: number }
+    | { type: 'CLOSE_DOCUMENT' }
+    | { type: 'SUBMIT' }
+    | { type: 'SUBMIT_SUCCEEDED' }
+    | { type: 'SUBMIT_FAILED'; error: string }
+    | { type: 'EXPIRE' }
+    | { type: 'CANCEL' }
+    | { type: 'WITHDRAW' }
+    | { type: 'RESET' };
+
+export type SigningSessionEventType = SigningSessionEvent['type'];
+
+export const initialSigningSessionState: SigningSessionState = {
+    status: 'awaiting-request',
+    request: null,
+    documents: [],
+    activeIndex: null,
+    error: null
+};
+
+// Statuses in which the session dialog is shown to the patron
+const ACTIVE_STATUSES: SigningSessionStatus[] = ['reviewing', 'signing-document', 'submitting', 'expired', 'withdrawn'];
+
+/**
+ * Allowed source statuses per event. Anything not listed here is an illegal transition.
+ */
+const allowedFrom: Record<SigningSessionEventType, SigningSessionStatus[]> = {
+    REQUEST_RECEIVED: ['awaiting-request', 'reviewing', 'signing-document', 'completed', 'expired', 'cancelled', 'withdrawn'],
+    OPEN_DOCUMENT: ['reviewing'],
+    DOCUMENT_AGREED: ['signing-document'],
+    DOCUMENT_STORED: ['reviewing', 'signing-document', 'submitting'],
+    REVOKE_DOCUMENT: ['reviewing', 'signing-document'],
+    CLOSE_DOCUMENT: ['signing-document'],
+    SUBMIT: ['reviewing'],
+    SUBMIT_SUCCEEDED: ['submitting'],
+    SUBMIT_FAILED: ['submitting'],
+    EXPIRE: ['reviewing', 'signing-document'],
+    CANCEL: ['reviewing', 'signing-document', 'expired'],
+    // Staff withdrew the request; an in-flight submission is left to finish and the server decides
+    WITHDRAW: ['reviewing', 'signing-document', 'expired'],
+    RESET: ['completed', 'expired', 'cancelled', 'withdrawn']
+};
+
+type Guard = (state: SigningSessionState, event: SigningSessionEvent) => string | null;
+
+/**
+ * Guards evaluated after the source status check.
+ * Return an error key to reject the event, or null to accept it.
+ */
+const guards: Partial<Record<SigningSessionEventType, Guard>> = {
+    OPEN_DOCUMENT: (state, event) => {
+        if (event.type !== 'OPEN_DOCUMENT' || !state.documents[event.index]) return 'NoReviewContentAvailable';
+        return isDocumentBlocked(state, event.index) ? 'PleaseSignPreviousDocumentsFirst' : null;
+    },
+    DOCUMENT_STORED: (state, event) => {
+        return event.type === 'DOCUMENT_STORED' && state.documents[event.index] ? null : 'NoReviewContentAvailable';
+    },
+    REVOKE_DOCUMENT: (state, event) => {
+        return event.type === 'REVOKE_DOCUMENT' && state.documents[event.index] ? null : 'NoReviewContentAvailable';
+    },
+    SUBMIT: (state) => {
+        if (!state.request || state.documents.length === 0) return 'Please provide your signature';
+        if (!state.documents.every(doc => doc.agreed || !doc.required)) return 'PleaseSignPreviousDocumentsFirst';
+        // A session of optional documents still needs one of them agreed, or nothing would be submitted
+        if (!state.documents.some(doc => doc.agreed)) return 'Please provide your signature';
+        return null;
+    }
+};
+
+/**
+ * Documents must be signed in order: a document is blocked until every required document before it is agreed
+ */
+export function isDocumentBlocked(state: SigningSessionState, index: number): boolean {
+    return !state.documents.slice(0, index).every(doc => doc.agreed || !doc.required);
+}
+
+/**
+ * 1-based position of the document the patron should work on next, for "2 of 3" progress displays
+ */
+export function getDocumentProgress(state: SigningSessionState): { current: number; total: number; agreed: number } {
+    const total = state.documents.length;
+    const agreed = state.documents.filter(doc => doc.agreed).length;
+    const nextIndex = state.documents.findIndex(doc => !doc.agreed);
+    return { current: nextIndex === -1 ? total : nextIndex + 1, total, agreed };
+}
+
+/**
+ * Idempotency key for one document of one signing session
+ */
+export function documentIdempotencyKey(request: SignatureMessageData, documentType: number): string {
+    return `${request.sessionId}:${documentType}`;
+}
+
+/**
+ * Check whether an event would be accepted in the given state
+ */
+export function canTransition(state: SigningSessionState, event: SigningSessionEvent): boolean {
+    if (!allowedFrom[event.type].includes(state.status)) {
+        return false;
+    }
+    return guards[event.type]?.(state, event) == null;
+}
+
+/**
+ * Whether the session dialog should be visible
+ */
+export function isSessionActive(state: SigningSessionState): boolean {
+    return ACTIVE_STATUSES.includes(state.status);
+}
+
+/**
+ * Apply an event to the session. Illegal events leave the state untouched;
+ * events rejected by a guard keep the status and record the guard's error.
+ */
+export function signingSessionReducer(state: SigningSessionState, event: SigningSessionEvent): SigningSessionState {
+    if (!allowedFrom[event.type].includes(state.status)) {
+        console.warn(`⚠️ Ignoring ${event.type} in signing session status '${state.status}'`);
+        return state;
+    }
+
+    const guardError = guards[event.type]?.(state, event);
+    if (guardError) {
+        return { ...state, error: guardError };
+    }
+
+    switch (event.type) {
+        case 'REQUEST_RECEIVED':
+            return {
+                ...initialSigningSessionState,
+                status: 'reviewing',
+                request: event.request,
+                documents: event.documents.map(spec => ({
+                    ...spec,
+                    agreed: false,
+                    signature: null,
+                    strokes: null,
+                    idempotencyKey: documentIdempotencyKey(event.request, spec.documentType),
+                    stored: false
+                }))
+            };
+
+        case 'OPEN_DOCUMENT':
+            return { ...state, status: 'signing-document', activeIndex: event.index, error: null };
+
+        case 'DOCUMENT_AGREED':
+            return {
+                ...state,
+                status: 'reviewing',
+                activeIndex: null,
+                documents: state.documents.map((doc, index) =>
+                    index === state.activeIndex
+                        ? { ...doc, agreed: true, signature: event.signature, strokes: event.strokes ?? null }
+                        : doc
+                ),
+                error: null
+            };
+
+        case 'DOCUMENT_STORED':
+            return {
+                ...state,
+                documents: state.documents.map((doc, index) => index === event.index ? { ...doc, stored: true } : doc)
+            };
+
+        case 'REVOKE_DOCUMENT':
+            // A stored signature stays stored: the server keeps the first one it accepted per key.
+            // Later documents depend on this one, so revoking it also revokes everything after it
+            return {
+                ...state,
+                status: 'reviewing',
+                activeIndex: null,
+                documents: state.documents.map((doc, index) =>
+                    index >= event.index ? { ...doc, agreed: false, signature: null, strokes: null } : doc
+                )
+            };
+
+        case 'CLOSE_DOCUMENT':
+            return { ...state, status: 'reviewing', activeIndex: null };
+
+        case 'SUBMIT':
+            return { ...state, status: 'submitting', error: null };
+
+        case 'SUBMIT_SUCCEEDED':
+            return { ...state, status: 'completed', error: null };
+
+        case 'SUBMIT_FAILED':
+            return { ...state, status: 'reviewing', error: event.error };
+
+        case 'EXPIRE':
+            return { ...state, status: 'expired', activeIndex: null, error: 'Signature request has expired' };
+
+        case 'CANCEL':
+            return { ...state, status: 'cancelled', activeIndex: null };
+
+        case 'WITHDRAW':
+            // Signatures collected so far belong to a request that no longer exists
+            return {
+                ...state,
+                status: 'withdrawn',
+                activeIndex: null,
+                documents: state.documents.map(doc => ({ ...doc, agreed: false, signature: null, strokes: null })),
+                error: null
+            };
+
+        case 'RESET':
+            return initialSigningSessionState;
+    }
+}
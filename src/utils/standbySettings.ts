@@ -0,0 +1,35 @@
+/**
+ * Standby screen settings
+ * What the tablet shows between patrons; overridable per deployment through window._env_.STANDBY.
+ */
+
+export interface StandbySettings {
+    enabled: boolean;
+    // Default time each slide stays up; a slide may set its own
+    rotationSeconds: number;
+    // Dim the screen after this long without a touch; 0 never dims
+    dimAfterSeconds: number;
+    // Opacity of the black layer over the dimmed screen, 0-1
+    dimOpacity: number;
+    // Play a chime when a signature request wakes the tablet
+    chime: boolean;
+    // How often slides are fetched again
+    refreshMinutes: number;
+}
+
+export const defaultStandbySettings: StandbySettings = {
+    enabled: true,
+    rotationSeconds: 8,
+    dimAfterSeconds: 300,
+    dimOpacity: 0.7,
+    chime: true,
+    refreshMinutes: 30
+};
+
+/**
+ * Settings in effect: defaults merged with the runtime environment override
+ */
+export function resolveStandbySettings(): StandbySettings {
+    const env = (window as Window & { _env_?: { STANDBY?: Partial<StandbySettings> } })._env_;
+    return { ...defaultStandbySettings, ...env?.STANDBY };
+}